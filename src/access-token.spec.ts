@@ -0,0 +1,136 @@
+import { SignJWT, generateKeyPair, type JWTPayload, type KeyLike } from 'jose';
+import { verifyAccessToken } from './access-token.js';
+import { configureAuthKit } from './config.js';
+
+describe('access-token', () => {
+  const clientId = process.env.WORKOS_CLIENT_ID as string;
+  const workosIssuer = `https://api.workos.com/user_management/${clientId}`;
+  let publicKey: KeyLike;
+  let privateKey: KeyLike;
+
+  beforeAll(async () => {
+    ({ publicKey, privateKey } = await generateKeyPair('RS256'));
+  });
+
+  afterEach(() => {
+    configureAuthKit({ apiHostname: undefined });
+  });
+
+  async function signToken(
+    payload: JWTPayload = {},
+    { expiresInSeconds = 60 * 60, key = privateKey }: { expiresInSeconds?: number; key?: KeyLike } = {},
+  ) {
+    return new SignJWT({ sid: 'session_123', iss: workosIssuer, ...payload })
+      .setProtectedHeader({ alg: 'RS256' })
+      .setIssuedAt()
+      .setExpirationTime(Math.floor(Date.now() / 1000) + expiresInSeconds)
+      .sign(key);
+  }
+
+  const verify = (token: string, options = {}) => verifyAccessToken(token, { jwks: async () => publicKey, ...options });
+
+  it('accepts a token issued by WorkOS for the configured client', async () => {
+    expect(await verify(await signToken())).toEqual({ valid: true });
+  });
+
+  describe('expiry', () => {
+    it('rejects an expired token', async () => {
+      expect(await verify(await signToken({}, { expiresInSeconds: -60 }))).toMatchObject({
+        valid: false,
+        reason: 'expired',
+      });
+    });
+
+    it('allows for clock skew', async () => {
+      const token = await signToken({}, { expiresInSeconds: -2 });
+
+      expect(await verify(token)).toEqual({ valid: true });
+      expect(await verify(token, { clockToleranceSeconds: 0 })).toMatchObject({ valid: false, reason: 'expired' });
+    });
+  });
+
+  it('rejects a token with an invalid signature', async () => {
+    const { privateKey: otherKey } = await generateKeyPair('RS256');
+
+    expect(await verify(await signToken({}, { key: otherKey }))).toMatchObject({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  it('rejects a malformed token', async () => {
+    expect(await verify('not-a-token')).toMatchObject({ valid: false, reason: 'invalid_token' });
+  });
+
+  describe('issuer', () => {
+    it('rejects a token issued by another host', async () => {
+      const token = await signToken({ iss: `https://auth.example.com/user_management/${clientId}` });
+
+      expect(await verify(token)).toEqual({ valid: false, reason: 'invalid_issuer' });
+    });
+
+    it('rejects a token without an issuer', async () => {
+      expect(await verify(await signToken({ iss: undefined }))).toEqual({ valid: false, reason: 'invalid_issuer' });
+    });
+
+    it('accepts tokens issued by the configured API host', async () => {
+      configureAuthKit({ apiHostname: 'auth.example.com' });
+      const token = await signToken({ iss: `https://auth.example.com/user_management/${clientId}` });
+
+      expect(await verify(token)).toEqual({ valid: true });
+      expect(await verify(await signToken())).toEqual({ valid: false, reason: 'invalid_issuer' });
+    });
+
+    it('accepts only the given issuers', async () => {
+      const token = await signToken({ iss: 'https://auth.example.com', aud: clientId });
+
+      expect(await verify(token, { issuer: ['https://auth.example.com'] })).toEqual({ valid: true });
+      expect(await verify(token, { issuer: 'https://other.example.com' })).toEqual({
+        valid: false,
+        reason: 'invalid_issuer',
+      });
+    });
+
+    it('skips the check when issuer is false', async () => {
+      const token = await signToken({ iss: 'https://auth.example.com', aud: clientId });
+
+      expect(await verify(token, { issuer: false })).toEqual({ valid: true });
+    });
+  });
+
+  describe('audience', () => {
+    it('rejects a token issued for another client', async () => {
+      const token = await signToken({ iss: 'https://api.workos.com/user_management/client_other' });
+
+      expect(await verify(token)).toEqual({ valid: false, reason: 'invalid_audience' });
+    });
+
+    it('checks the aud claim when present', async () => {
+      expect(await verify(await signToken({ aud: ['client_other', clientId] }))).toEqual({ valid: true });
+      expect(await verify(await signToken({ aud: 'client_other' }))).toEqual({
+        valid: false,
+        reason: 'invalid_audience',
+      });
+    });
+
+    it('checks the client_id claim when present', async () => {
+      expect(await verify(await signToken({ client_id: clientId }))).toEqual({ valid: true });
+      expect(await verify(await signToken({ client_id: 'client_other' }))).toEqual({
+        valid: false,
+        reason: 'invalid_audience',
+      });
+    });
+
+    it('accepts only the given audiences', async () => {
+      const token = await signToken({ aud: 'client_other' });
+
+      expect(await verify(token, { audience: ['client_other'] })).toEqual({ valid: true });
+    });
+
+    it('skips the check when audience is false', async () => {
+      const token = await signToken({ aud: 'client_other' });
+
+      expect(await verify(token, { audience: false })).toEqual({ valid: true });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { decodeJwt, jwtVerify } from 'jose';
+import { getConfig } from './config.js';
+import type { AccessTokenValidationFailure, AccessTokenValidationOptions, JwksSource } from './interfaces.js';
+import { getJWKS } from './jwks.js';
+import { withSpan } from './tracing.js';
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 5;
+
+export type AccessTokenVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: AccessTokenValidationFailure; error?: unknown };
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+// Maps the stable error codes `jose` sets on its errors to a failure reason
+function getFailureReason(error: unknown): AccessTokenValidationFailure {
+  const { code } = (error ?? {}) as { code?: string };
+
+  switch (code) {
+    case 'ERR_JWT_EXPIRED':
+      return 'expired';
+    case 'ERR_JWS_SIGNATURE_VERIFICATION_FAILED':
+    case 'ERR_JWKS_NO_MATCHING_KEY':
+      return 'invalid_signature';
+    default:
+      return 'invalid_token';
+  }
+}
+
+function isValidIssuer(iss: unknown, issuer: AccessTokenValidationOptions['issuer']): boolean {
+  if (issuer === false) {
+    return true;
+  }
+
+  if (typeof iss !== 'string') {
+    return false;
+  }
+
+  if (issuer !== undefined) {
+    return toList(issuer).includes(iss);
+  }
+
+  // By default, accept tokens issued by the WorkOS API the client talks to
+  try {
+    return new URL(iss).hostname === (getConfig().apiHostname ?? 'api.workos.com');
+  } catch {
+    return false;
+  }
+}
+
+function isValidAudience(
+  { aud, client_id: clientIdClaim, iss }: { aud?: string | string[]; client_id?: unknown; iss?: string },
+  audience: AccessTokenValidationOptions['audience'],
+): boolean {
+  if (audience === false) {
+    return true;
+  }
+
+  const audiences = audience === undefined ? [getConfig().clientId] : toList(audience);
+
+  if (aud !== undefined) {
+    return toList(aud).some((value) => audiences.includes(value));
+  }
+
+  if (typeof clientIdClaim === 'string') {
+    return audiences.includes(clientIdClaim);
+  }
+
+  // WorkOS access tokens name the client they were issued for in the issuer,
+  // e.g. `https://api.workos.com/user_management/client_123`
+  try {
+    const clientIdFromIssuer = new URL(iss ?? '').pathname.split('/').pop();
+    return clientIdFromIssuer !== undefined && audiences.includes(clientIdFromIssuer);
+  } catch {
+    return false;
+  }
+}
+
+async function verify(
+  accessToken: string,
+  { jwks, ...validation }: AccessTokenValidationOptions & { jwks?: JwksSource },
+): Promise<AccessTokenVerificationResult> {
+  try {
+    await jwtVerify(accessToken, getJWKS(jwks), {
+      clockTolerance: validation.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS,
+    });
+  } catch (error) {
+    return { valid: false, reason: getFailureReason(error), error };
+  }
+
+  // The signature was verified above, so the claims can be read as is
+  const claims = decodeJwt<{ client_id?: unknown }>(accessToken);
+
+  if (!isValidIssuer(claims.iss, validation.issuer)) {
+    return { valid: false, reason: 'invalid_issuer' };
+  }
+
+  if (!isValidAudience(claims, validation.audience)) {
+    return { valid: false, reason: 'invalid_audience' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Verify the signature and expiry of an access token, and that it was issued
+ * by WorkOS for the configured client.
+ * @returns Whether the token is valid and, if not, why.
+ */
+export async function verifyAccessToken(
+  accessToken: string,
+  options: AccessTokenValidationOptions & { jwks?: JwksSource } = {},
+): Promise<AccessTokenVerificationResult> {
+  return withSpan('authkit.verify_access_token', {}, async (span) => {
+    const result = await verify(accessToken, options);
+
+    span.setAttribute('authkit.access_token.valid', result.valid);
+    if (!result.valid) {
+      span.setAttribute('authkit.access_token.failure_reason', result.reason);
+    }
+
+    return result;
+  });
+}
@@ -207,7 +207,9 @@ describe('actions', () => {
       vi.mocked(refreshSession).mockRejectedValueOnce(new Error('Rate limit exceeded'));
       const result = await refreshAccessTokenAction();
       expect(result).toEqual({ accessToken: undefined, error: 'Failed to refresh access token' });
-      expect(warnSpy).toHaveBeenCalledWith('Failed to refresh access token:', 'Rate limit exceeded');
+      expect(warnSpy).toHaveBeenCalledWith('Failed to refresh access token', {
+        error: expect.objectContaining({ name: 'Error', message: 'Rate limit exceeded' }),
+      });
       warnSpy.mockRestore();
     });
 
@@ -216,7 +218,7 @@ describe('actions', () => {
       vi.mocked(refreshSession).mockRejectedValueOnce('string error');
       const result = await refreshAccessTokenAction();
       expect(result).toEqual({ accessToken: undefined, error: 'Failed to refresh access token' });
-      expect(warnSpy).toHaveBeenCalledWith('Failed to refresh access token:', 'string error');
+      expect(warnSpy).toHaveBeenCalledWith('Failed to refresh access token', { error: 'string error' });
       warnSpy.mockRestore();
     });
   });
@@ -2,6 +2,7 @@
 
 import { getSignInUrl, signOut, switchToOrganization } from './auth.js';
 import { NoUserInfo, UserInfo, SwitchToOrganizationOptions } from './interfaces.js';
+import { getLogger } from './logger.js';
 import { refreshSession, withAuth } from './session.js';
 import { getWorkOS } from './workos.js';
 
@@ -10,6 +11,21 @@ export interface RefreshAccessTokenActionResult {
   error?: string;
 }
 
+/**
+ * The server actions used by `AuthKitProvider`, `useAccessToken` and
+ * `Impersonation`.
+ */
+export interface AuthKitActions {
+  checkSessionAction: typeof checkSessionAction;
+  handleSignOutAction: typeof handleSignOutAction;
+  getOrganizationAction: typeof getOrganizationAction;
+  getAuthAction: typeof getAuthAction;
+  refreshAuthAction: typeof refreshAuthAction;
+  switchToOrganizationAction: typeof switchToOrganizationAction;
+  getAccessTokenAction: typeof getAccessTokenAction;
+  refreshAccessTokenAction: typeof refreshAccessTokenAction;
+}
+
 /**
  * This function is used to sanitize the auth object.
  * Remove the accessToken from the auth object as it is not needed on the client side.
@@ -112,7 +128,7 @@ export async function refreshAccessTokenAction(): Promise<RefreshAccessTokenActi
     const auth = await refreshSession();
     return { accessToken: auth.accessToken };
   } catch (error) {
-    console.warn('Failed to refresh access token:', error instanceof Error ? error.message : String(error));
+    getLogger().warn('Failed to refresh access token', { error });
     return {
       accessToken: undefined,
       error: 'Failed to refresh access token',
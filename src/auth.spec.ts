@@ -10,6 +10,11 @@ import { generateSession, generateTestToken } from './test-helpers.js';
 import { sealData } from 'iron-session';
 import { getWorkOS } from './workos.js';
 import { getStateFromPKCECookieValue } from './pkce.js';
+import { configureAuthKit, getConfig, runWithAuthKitConfig } from './config.js';
+import { createAuthKitEvents } from './events.js';
+import { createMemorySessionStore } from './session-store.js';
+import type { User } from '@workos-inc/node';
+import type { UserInfo } from './interfaces.js';
 
 const workos = getWorkOS();
 
@@ -54,6 +59,13 @@ vi.mock('../src/session', async () => {
   };
 });
 
+// Picks a configuration for the `brand.example.com` tenant
+const resolveConfig = vi.fn(() => ({
+  clientId: 'client_brand',
+  cookieName: 'brand-session',
+  redirectUri: 'https://brand.example.com/callback',
+}));
+
 describe('auth.ts', () => {
   beforeEach(async () => {
     // Clear all mocks between tests
@@ -91,6 +103,17 @@ describe('auth.ts', () => {
       const decoded = await getStateFromPKCECookieValue(state!);
       expect(decoded.returnPathname).toBe('/dashboard');
     });
+
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+
+      const url = new URL(await getSignInUrl({ resolveConfig }));
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(url.searchParams.get('client_id')).toBe('client_brand');
+      expect(url.searchParams.get('redirect_uri')).toBe('https://brand.example.com/callback');
+    });
   });
 
   it('should not include prompt when not specified for getSignInUrl', async () => {
@@ -127,6 +150,17 @@ describe('auth.ts', () => {
       const decoded = await getStateFromPKCECookieValue(state!);
       expect(decoded.returnPathname).toBe('/welcome');
     });
+
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+
+      const url = new URL(await getSignUpUrl({ resolveConfig }));
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(url.searchParams.get('client_id')).toBe('client_brand');
+      expect(url.searchParams.get('screen_hint')).toBe('sign-up');
+    });
   });
 
   describe('switchToOrganization', () => {
@@ -146,6 +180,34 @@ describe('auth.ts', () => {
       expect(revalidatePath).toHaveBeenCalledWith('/test');
     });
 
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      let clientId: string | undefined;
+      vi.mocked(session.refreshSession).mockImplementationOnce(async () => {
+        clientId = getConfig().clientId;
+        return { user: { id: 'user_123' } } as UserInfo;
+      });
+      const nextHeaders = await headers();
+      nextHeaders.set('x-url', 'http://localhost/test');
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+
+      await switchToOrganization('org_123', { revalidationStrategy: 'none', resolveConfig });
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(session.refreshSession).toHaveBeenCalledWith({ organizationId: 'org_123', ensureSignedIn: true });
+      expect(clientId).toBe('client_brand');
+    });
+
+    it('should redirect to the fallback when returnTo is on another site', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const nextHeaders = await headers();
+      nextHeaders.set('x-url', 'http://localhost/test');
+
+      await switchToOrganization('org_123', { returnTo: '//evil.com/phishing' });
+
+      expect(revalidatePath).toHaveBeenCalledWith('/');
+      expect(redirect).toHaveBeenCalledWith('/');
+    });
+
     it('should revalidate the provided tags and refresh the session with the new organizationId', async () => {
       const nextHeaders = await headers();
       nextHeaders.set('x-url', 'http://localhost/test');
@@ -261,6 +323,34 @@ describe('auth.ts', () => {
       expect(redirect).toHaveBeenCalledWith('/');
     });
 
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      const nextCookies = await cookies();
+      const nextHeaders = await headers();
+
+      nextHeaders.set('x-workos-middleware', 'true');
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+      nextCookies.set('brand-session', 'foo');
+      nextCookies.set('wos-session', 'keep-me');
+
+      await signOut({ resolveConfig });
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(nextCookies.get('brand-session')).toBeUndefined();
+      expect(nextCookies.get('wos-session')?.value).toBe('keep-me');
+      expect(redirect).toHaveBeenCalledWith('/');
+    });
+
+    it('should emit sign_out for the session being signed out of', async () => {
+      const events = createAuthKitEvents();
+      const listener = vi.fn();
+      events.on('sign_out', listener);
+      await generateSession();
+
+      await runWithAuthKitConfig({ events }, () => signOut());
+
+      expect(listener).toHaveBeenCalledWith({ type: 'sign_out', userId: 'user_123', sessionId: 'session_123' });
+    });
+
     it('should delete the cookie with a specific domain', async () => {
       const nextCookies = await cookies();
       const nextHeaders = await headers();
@@ -274,6 +364,22 @@ describe('auth.ts', () => {
       expect(sessionCookie).toBeUndefined();
     });
 
+    it('should delete every chunk of a chunked session cookie', async () => {
+      const nextCookies = await cookies();
+      const nextHeaders = await headers();
+
+      nextHeaders.set('x-workos-middleware', 'true');
+      nextCookies.set('wos-session.0', 'foo');
+      nextCookies.set('wos-session.1', 'bar');
+      nextCookies.set('wos-session-unrelated', 'keep-me');
+
+      await signOut();
+
+      expect(nextCookies.get('wos-session.0')).toBeUndefined();
+      expect(nextCookies.get('wos-session.1')).toBeUndefined();
+      expect(nextCookies.get('wos-session-unrelated')?.value).toBe('keep-me');
+    });
+
     it('should clear lingering PKCE verifier cookies (legacy and per-flow)', async () => {
       const nextCookies = await cookies();
       const nextHeaders = await headers();
@@ -293,13 +399,71 @@ describe('auth.ts', () => {
       expect(nextCookies.get('unrelated-cookie')?.value).toBe('keep-me');
     });
 
+    it('should delete the stored session when a session store is configured', async () => {
+      const store = createMemorySessionStore();
+      configureAuthKit({ sessionStore: store });
+
+      try {
+        await store.set('session_id', {
+          accessToken: await generateTestToken(),
+          refreshToken: 'refresh_token_123',
+          user: { id: 'user_123' } as User,
+        });
+
+        const nextCookies = await cookies();
+        const nextHeaders = await headers();
+
+        nextHeaders.set('x-workos-middleware', 'true');
+        nextCookies.set(
+          'wos-session',
+          await sealData({ id: 'session_id' }, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
+        );
+
+        await signOut();
+
+        expect(await store.get('session_id')).toBeUndefined();
+        expect(nextCookies.get('wos-session')).toBeUndefined();
+      } finally {
+        configureAuthKit({ sessionStore: undefined });
+      }
+    });
+
+    it('should sign out when the session cookie cannot be unsealed and a session store is configured', async () => {
+      configureAuthKit({ sessionStore: createMemorySessionStore() });
+
+      try {
+        const nextCookies = await cookies();
+        const nextHeaders = await headers();
+
+        nextHeaders.set('x-workos-middleware', 'true');
+        nextCookies.set('wos-session', 'not-a-sealed-value');
+
+        await signOut();
+
+        expect(nextCookies.get('wos-session')).toBeUndefined();
+        expect(redirect).toHaveBeenCalledWith('/');
+      } finally {
+        configureAuthKit({ sessionStore: undefined });
+      }
+    });
+
     describe('when given a `returnTo` parameter', () => {
+      beforeEach(() => {
+        configureAuthKit({ redirectUri: 'https://example.com/callback' });
+      });
+
+      afterEach(() => {
+        configureAuthKit({ redirectUri: undefined });
+      });
+
       it('passes the `returnTo` through to the `getLogoutUrl` call', async () => {
         vi.spyOn(workos.userManagement, 'getLogoutUrl').mockReturnValue(
           'https://user-management-logout.com/signed-out',
         );
         const mockSession = {
           accessToken: await generateTestToken(),
+          refreshToken: 'refresh_token_123',
+          user: { id: 'user_123' } as User,
           sessionId: 'session_123',
         } as const;
 
@@ -334,6 +498,70 @@ describe('auth.ts', () => {
           expect(redirect).toHaveBeenCalledWith('https://example.com/signed-out');
         });
       });
+
+      it('passes paths to `getLogoutUrl` as URLs on the app', async () => {
+        vi.spyOn(workos.userManagement, 'getLogoutUrl').mockReturnValue(
+          'https://user-management-logout.com/signed-out',
+        );
+        const nextHeaders = await headers();
+        nextHeaders.set(
+          'x-workos-session',
+          await sealData(
+            {
+              accessToken: await generateTestToken(),
+              refreshToken: 'refresh_token_123',
+              user: { id: 'user_123' } as User,
+            },
+            { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+          ),
+        );
+        nextHeaders.set('x-workos-middleware', 'true');
+
+        await signOut({ returnTo: '/signed-out' });
+
+        expect(workos.userManagement.getLogoutUrl).toHaveBeenCalledWith(
+          expect.objectContaining({ returnTo: 'https://example.com/signed-out' }),
+        );
+      });
+
+      it('leaves out a path `returnTo` when the URL of the app is unknown', async () => {
+        vi.spyOn(workos.userManagement, 'getLogoutUrl').mockReturnValue('https://user-management-logout.com');
+        const nextHeaders = await headers();
+        nextHeaders.set(
+          'x-workos-session',
+          await sealData(
+            {
+              accessToken: await generateTestToken(),
+              refreshToken: 'refresh_token_123',
+              user: { id: 'user_123' } as User,
+            },
+            { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+          ),
+        );
+        nextHeaders.set('x-workos-middleware', 'true');
+
+        await runWithAuthKitConfig({ redirectUri: '' }, () => signOut({ returnTo: '/signed-out' }));
+
+        expect(workos.userManagement.getLogoutUrl).toHaveBeenCalledWith(
+          expect.objectContaining({ returnTo: undefined }),
+        );
+      });
+
+      it('returns to the fallback when the `returnTo` is on another site', async () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const nextHeaders = await headers();
+        nextHeaders.set('x-workos-middleware', 'true');
+
+        await runWithAuthKitConfig({ redirects: { fallback: '/signed-out' } }, () =>
+          signOut({ returnTo: 'https://evil.com/phishing' }),
+        );
+
+        expect(redirect).toHaveBeenCalledWith('https://example.com/signed-out');
+        expect(warnSpy).toHaveBeenCalledWith('Unsafe redirect target, redirecting to the fallback instead', {
+          target: 'https://evil.com/phishing',
+          fallback: '/signed-out',
+        });
+      });
     });
 
     describe('when called outside of middleware', () => {
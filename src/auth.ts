@@ -4,12 +4,27 @@ import { decodeJwt } from 'jose';
 import { revalidatePath, revalidateTag } from 'next/cache';
 import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { WORKOS_COOKIE_NAME } from './env-variables.js';
-import { getCookieOptions, getPKCECookieOptions } from './cookie.js';
+import { getConfig } from './config.js';
+import { getCookieOptions, getPKCECookieOptions, isCookieChunkOf } from './cookie.js';
+import { SessionDecryptionError } from './errors.js';
+import { emitAuthKitEvent } from './events.js';
 import { getAuthorizationUrl } from './get-authorization-url.js';
-import type { AccessToken, GetAuthURLOptions, SwitchToOrganizationOptions, UserInfo } from './interfaces.js';
+import type {
+  AccessToken,
+  GetAuthURLOptions,
+  SwitchToOrganizationOptions,
+  UserInfo,
+  WithAuthOptions,
+} from './interfaces.js';
 import { PKCE_COOKIE_NAME, setPKCECookie } from './pkce.js';
-import { getSessionFromCookie, refreshSession, withAuth } from './session.js';
+import { getAbsoluteSafeRedirect, getSafeRedirect } from './redirects.js';
+import {
+  deleteStoredSession,
+  getSessionFromCookie,
+  refreshSession,
+  runWithResolvedConfig,
+  withAuth,
+} from './session.js';
 import { getWorkOS } from './workos.js';
 
 /**
@@ -28,11 +43,16 @@ async function getAuthURLAndSetPKCECookie(options: GetAuthURLOptions): Promise<s
   return url;
 }
 
-type GetSignUrlOptions = Omit<GetAuthURLOptions, 'screenHint' | 'returnPathname'> & {
-  returnTo?: string;
-};
+type GetSignUrlOptions = Omit<GetAuthURLOptions, 'screenHint' | 'returnPathname'> &
+  Pick<WithAuthOptions, 'resolveConfig'> & {
+    returnTo?: string;
+  };
+
+export async function getSignInUrl({ resolveConfig, ...authUrlOptions }: GetSignUrlOptions = {}): Promise<string> {
+  if (resolveConfig) {
+    return runWithResolvedConfig(resolveConfig, () => getSignInUrl(authUrlOptions));
+  }
 
-export async function getSignInUrl(authUrlOptions: GetSignUrlOptions = {}) {
   return getAuthURLAndSetPKCECookie({
     ...authUrlOptions,
     returnPathname: authUrlOptions.returnTo,
@@ -40,7 +60,11 @@ export async function getSignInUrl(authUrlOptions: GetSignUrlOptions = {}) {
   });
 }
 
-export async function getSignUpUrl(authUrlOptions: GetSignUrlOptions = {}) {
+export async function getSignUpUrl({ resolveConfig, ...authUrlOptions }: GetSignUrlOptions = {}): Promise<string> {
+  if (resolveConfig) {
+    return runWithResolvedConfig(resolveConfig, () => getSignUpUrl(authUrlOptions));
+  }
+
   return getAuthURLAndSetPKCECookie({
     ...authUrlOptions,
     returnPathname: authUrlOptions.returnTo,
@@ -51,33 +75,71 @@ export async function getSignUpUrl(authUrlOptions: GetSignUrlOptions = {}) {
 /**
  * Sign out the user and delete the session cookie.
  * @param options Options for signing out.
- * @param options.returnTo The URL to redirect to after signing out.
+ * @param options.returnTo The URL to redirect to after signing out. Unsafe
+ * targets are replaced with the fallback of the `redirects` option.
+ * @param options.resolveConfig Picks the configuration from the host the
+ * proxy/middleware recorded for the request.
  */
-export async function signOut({ returnTo }: { returnTo?: string } = {}) {
+export async function signOut({
+  returnTo: returnToOption,
+  resolveConfig,
+}: { returnTo?: string } & Pick<WithAuthOptions, 'resolveConfig'> = {}): Promise<void> {
+  if (resolveConfig) {
+    return runWithResolvedConfig(resolveConfig, () => signOut({ returnTo: returnToOption }));
+  }
+
+  // WorkOS only accepts absolute return URLs
+  const returnTo =
+    returnToOption === undefined
+      ? undefined
+      : getAbsoluteSafeRedirect(returnToOption, (await headers()).get('x-url') ?? undefined);
   let sessionId: string | undefined;
+  let userId: string | undefined;
 
   try {
-    const { sessionId: sid } = await withAuth();
+    const { sessionId: sid, user } = await withAuth();
     sessionId = sid;
+    userId = user?.id;
   } catch (error) {
     // Fall back to reading session directly from cookie when middleware isn't available
-    const session = await getSessionFromCookie();
+    const session = await getSessionFromCookie().catch((cookieError: unknown) => {
+      // A cookie that can't be unsealed has no session to sign out of; it is cleared below
+      if (cookieError instanceof SessionDecryptionError) {
+        return undefined;
+      }
+      throw cookieError;
+    });
     if (session && session.accessToken) {
       const { sid } = decodeJwt<AccessToken>(session.accessToken);
       sessionId = sid;
+      userId = session.user.id;
     } else {
       // can't recover - throw the original error.
       throw error;
     }
   } finally {
+    // Revoke the server-side session (if a session store is configured) before
+    // the cookie that references it goes away.
+    await deleteStoredSession();
+
     const nextCookies = await cookies();
-    const cookieName = WORKOS_COOKIE_NAME || 'wos-session';
+    const { cookieName } = getConfig();
     const { domain, path, sameSite, secure } = getCookieOptions();
-    try {
-      nextCookies.delete({ name: cookieName, domain, path, sameSite, secure });
-    } catch {
-      // Some environments (e.g., vinext) only accept a string cookie name
-      nextCookies.delete(cookieName);
+    // Delete the session cookie along with any chunks it was split into
+    const sessionCookieNames = new Set([cookieName]);
+    for (const { name } of nextCookies.getAll()) {
+      if (isCookieChunkOf(cookieName, name)) {
+        sessionCookieNames.add(name);
+      }
+    }
+
+    for (const name of sessionCookieNames) {
+      try {
+        nextCookies.delete({ name, domain, path, sameSite, secure });
+      } catch {
+        // Some environments (e.g., vinext) only accept a string cookie name
+        nextCookies.delete(name);
+      }
     }
 
     // Clear any lingering PKCE verifier cookies so orphans from abandoned
@@ -98,6 +160,10 @@ export async function signOut({ returnTo }: { returnTo?: string } = {}) {
       }
     }
 
+    if (sessionId && userId) {
+      await emitAuthKitEvent({ type: 'sign_out', userId, sessionId });
+    }
+
     if (sessionId) {
       redirect(getWorkOS().userManagement.getLogoutUrl({ sessionId, returnTo }));
     } else {
@@ -108,13 +174,20 @@ export async function signOut({ returnTo }: { returnTo?: string } = {}) {
 
 export async function switchToOrganization(
   organizationId: string,
-  options: SwitchToOrganizationOptions = {},
+  options: SwitchToOrganizationOptions & Pick<WithAuthOptions, 'resolveConfig'> = {},
 ): Promise<UserInfo> {
-  const { returnTo, revalidationStrategy = 'path', revalidationTags = [] } = options;
+  const { returnTo, revalidationStrategy = 'path', revalidationTags = [], resolveConfig } = options;
+  if (resolveConfig) {
+    return runWithResolvedConfig(resolveConfig, () =>
+      switchToOrganization(organizationId, { returnTo, revalidationStrategy, revalidationTags }),
+    );
+  }
+
   const headersList = await headers();
   let result: UserInfo;
+  const url = headersList.get('x-url') ?? undefined;
   // istanbul ignore next
-  const pathname = returnTo || headersList.get('x-url') || '/';
+  const pathname = returnTo ? getSafeRedirect(returnTo, url) : url || '/';
   try {
     result = await refreshSession({ organizationId, ensureSignedIn: true });
   } catch (
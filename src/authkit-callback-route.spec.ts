@@ -1,8 +1,13 @@
 import type { Mock } from 'vitest';
+import { trace } from '@opentelemetry/api';
 import { getWorkOS } from './workos.js';
 import { handleAuth } from './authkit-callback-route.js';
 import { getPKCECookieNameForState } from './pkce.js';
+import { configureAuthKit, runWithAuthKitConfig } from './config.js';
+import { CallbackError } from './errors.js';
+import { createAuthKitEvents } from './events.js';
 import { getSessionFromCookie, saveSession } from './session.js';
+import { registerTestTracer } from './test-helpers.js';
 import { NextRequest, NextResponse } from 'next/server';
 import { sealData } from 'iron-session';
 
@@ -106,6 +111,49 @@ describe('authkit-callback-route', () => {
       expect(response).toBeInstanceOf(NextResponse);
     });
 
+    it('should trace the code exchange', async () => {
+      const spans = registerTestTracer();
+      vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue({
+        ...mockAuthResponse,
+        organizationId: 'org_123',
+        authenticationMethod: 'Password',
+      });
+
+      const sealedState = await setAuthCookie(request, { nonce: 'foo', codeVerifier: 'test-verifier' });
+      request.nextUrl.searchParams.set('code', 'test-code');
+      request.nextUrl.searchParams.set('state', sealedState);
+
+      try {
+        await handleAuth()(request);
+      } finally {
+        trace.disable();
+      }
+
+      expect(spans.find((span) => span.name === 'authkit.authenticate_with_code')).toMatchObject({
+        attributes: { 'authkit.organization_id': 'org_123', 'authkit.authentication_method': 'Password' },
+        ended: true,
+      });
+    });
+
+    it('should use the configuration resolved from the request host', async () => {
+      vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue(mockAuthResponse);
+      const resolveConfig = vi.fn(() => ({ clientId: 'client_brand', cookieName: 'brand-session' }));
+
+      request = new NextRequest(new URL('https://brand.example.com/callback'));
+      const sealedState = await setAuthCookie(request, { nonce: 'foo', codeVerifier: 'test-verifier' });
+      request.nextUrl.searchParams.set('code', 'test-code');
+      request.nextUrl.searchParams.set('state', sealedState);
+
+      const handler = handleAuth({ resolveConfig });
+      await handler(request);
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(workos.userManagement.authenticateWithCode).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'client_brand' }),
+      );
+      expect((await cookies()).get('brand-session')).toBeDefined();
+    });
+
     it('should handle authentication failure', async () => {
       (workos.userManagement.authenticateWithCode as Mock).mockRejectedValue(new Error('Auth failed'));
 
@@ -234,12 +282,134 @@ describe('authkit-callback-route', () => {
       expect(location).not.toContain('https://example.com/invite');
     });
 
+    it('should redirect to a returnPathname on an allowed origin', async () => {
+      vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue(mockAuthResponse);
+
+      const sealedState = await setAuthCookie(request, {
+        nonce: 'foo',
+        codeVerifier: 'test-verifier',
+        returnPathname: 'https://docs.example.com/guides?page=2',
+      });
+      request.nextUrl.searchParams.set('code', 'test-code');
+      request.nextUrl.searchParams.set('state', sealedState);
+
+      const handler = handleAuth();
+      const response = await runWithAuthKitConfig({ redirects: { allowedOrigins: ['https://docs.example.com'] } }, () =>
+        handler(request),
+      );
+
+      expect(response.headers.get('Location')).toBe('https://docs.example.com/guides?page=2');
+    });
+
+    it('should redirect to the fallback when returnPathname is outside the allowed path prefixes', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue(mockAuthResponse);
+
+      const sealedState = await setAuthCookie(request, {
+        nonce: 'foo',
+        codeVerifier: 'test-verifier',
+        returnPathname: '/admin',
+      });
+      request.nextUrl.searchParams.set('code', 'test-code');
+      request.nextUrl.searchParams.set('state', sealedState);
+
+      const handler = handleAuth();
+      const response = await runWithAuthKitConfig(
+        { redirects: { allowedPathPrefixes: ['/app'], fallback: '/app/home' } },
+        () => handler(request),
+      );
+
+      expect(response.headers.get('Location')).toBe('http://example.com/app/home');
+      expect(warnSpy).toHaveBeenCalledWith('Unsafe redirect target, redirecting to the fallback instead', {
+        target: '/admin',
+        fallback: '/app/home',
+      });
+    });
+
     // Regression coverage for the open-redirect / javascript:-URI class reported
     // against the `state` param. `returnPathname` is read only from the sealed
     // (tamper-proof) PKCE cookie and the callback copies only the pathname +
     // search onto the app's own origin, so a hostile value can never change the
     // redirect's scheme or host. These tests pin that invariant so a refactor
     // that started honoring the full URL would fail loudly.
+    describe('events', () => {
+      const events = createAuthKitEvents();
+      const listener = vi.fn();
+      events.on('*', listener);
+
+      beforeAll(() => {
+        configureAuthKit({ events });
+      });
+
+      afterAll(() => {
+        configureAuthKit({ events: undefined });
+      });
+
+      async function handleCallback(state: State) {
+        const sealedState = await setAuthCookie(request, state);
+        request.nextUrl.searchParams.set('code', 'test-code');
+        request.nextUrl.searchParams.set('state', sealedState);
+
+        return handleAuth()(request);
+      }
+
+      it('emits sign_in for an existing account', async () => {
+        vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue({
+          ...mockAuthResponse,
+          organizationId: 'org_123',
+        });
+
+        await handleCallback({ nonce: 'foo', codeVerifier: 'test-verifier', startedAt: Date.now() });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({
+          type: 'sign_in',
+          user: mockAuthResponse.user,
+          organizationId: 'org_123',
+          authenticationMethod: undefined,
+        });
+      });
+
+      it('emits sign_up for an account created during the flow', async () => {
+        vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue(mockAuthResponse);
+
+        await handleCallback({
+          nonce: 'foo',
+          codeVerifier: 'test-verifier',
+          startedAt: Date.parse(mockAuthResponse.user.createdAt) - 60_000,
+        });
+
+        expect(listener).toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'sign_up', user: mockAuthResponse.user }),
+        );
+      });
+
+      it('emits impersonation_started for an impersonated session', async () => {
+        const impersonator = { email: 'admin@example.com', reason: 'Support ticket' };
+        vi.mocked(workos.userManagement.authenticateWithCode).mockResolvedValue({ ...mockAuthResponse, impersonator });
+
+        await handleCallback({ nonce: 'foo', codeVerifier: 'test-verifier' });
+
+        expect(listener).toHaveBeenCalledWith({
+          type: 'impersonation_started',
+          user: mockAuthResponse.user,
+          impersonator,
+          organizationId: undefined,
+        });
+      });
+
+      it('emits callback_failed with the error code', async () => {
+        await handleAuth()(request);
+
+        expect(listener).toHaveBeenCalledWith({
+          type: 'callback_failed',
+          code: 'missing_auth_params',
+          error: expect.any(CallbackError),
+          path: '/callback',
+        });
+      });
+    });
+
     describe('returnPathname is neutralized to the app origin', () => {
       const appOrigin = 'http://example.com';
       const hostileReturnPathnames = [
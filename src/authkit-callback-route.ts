@@ -1,11 +1,15 @@
 import { NextRequest } from 'next/server';
+import { getConfig, runWithAuthKitConfig } from './config.js';
 import { getPKCECookieOptions } from './cookie.js';
-import { WORKOS_CLIENT_ID } from './env-variables.js';
 import { CallbackError } from './errors.js';
+import { emitAuthKitEvent } from './events.js';
 import { HandleAuthOptions } from './interfaces.js';
+import { getLogger } from './logger.js';
 import { PKCE_COOKIE_NAME, getPKCECookieNameForState, getStateFromPKCECookieValue } from './pkce.js';
+import { getSafeRedirect } from './redirects.js';
 import { saveSession } from './session.js';
-import { errorResponseWithFallback, redirectWithFallback, setCachePreventionHeaders } from './utils.js';
+import { withSpan } from './tracing.js';
+import { errorResponseWithFallback, getRequestHost, redirectWithFallback, setCachePreventionHeaders } from './utils.js';
 import { getWorkOS } from './workos.js';
 
 function preventCaching(headers: Headers): void {
@@ -13,8 +17,22 @@ function preventCaching(headers: Headers): void {
   setCachePreventionHeaders(headers);
 }
 
+/**
+ * Targets on the app's host only contribute their pathname and search params,
+ * so the redirect keeps the app's origin (or `baseURL`) even when the target
+ * was built with another scheme or port, e.g. behind TLS termination.
+ */
+function toAppPath(target: string, url: URL): string {
+  try {
+    const targetUrl = new URL(target, url);
+    return targetUrl.hostname === url.hostname ? `${targetUrl.pathname}${targetUrl.search}` : target;
+  } catch {
+    return target;
+  }
+}
+
 export function handleAuth(options: HandleAuthOptions = {}) {
-  const { returnPathname: returnPathnameOption = '/', baseURL, onSuccess, onError } = options;
+  const { returnPathname: returnPathnameOption = '/', baseURL, onSuccess, onError, resolveConfig } = options;
 
   // Throw early if baseURL is provided but invalid
   if (baseURL) {
@@ -26,6 +44,15 @@ export function handleAuth(options: HandleAuthOptions = {}) {
   }
 
   return async function GET(request: NextRequest) {
+    if (!resolveConfig) {
+      return handleCallback(request);
+    }
+
+    const config = await resolveConfig(getRequestHost(request));
+    return runWithAuthKitConfig(config, () => handleCallback(request));
+  };
+
+  async function handleCallback(request: NextRequest) {
     // Fall back to standard URL parsing when nextUrl is not available (e.g., vinext)
     const requestUrl = request.nextUrl ?? new URL(request.url);
 
@@ -75,14 +102,23 @@ export function handleAuth(options: HandleAuthOptions = {}) {
         codeVerifier,
         customState,
         returnPathname: returnPathnameState,
+        startedAt,
       } = await getStateFromPKCECookieValue(pkceCookie);
 
       // Use the code returned to us by AuthKit and authenticate the user with WorkOS
       const { accessToken, refreshToken, user, impersonator, oauthTokens, authenticationMethod, organizationId } =
-        await getWorkOS().userManagement.authenticateWithCode({
-          clientId: WORKOS_CLIENT_ID,
-          code,
-          codeVerifier,
+        await withSpan('authkit.authenticate_with_code', {}, async (span) => {
+          const response = await getWorkOS().userManagement.authenticateWithCode({
+            clientId: getConfig().clientId,
+            code,
+            codeVerifier,
+          });
+          span.setAttributes({
+            'authkit.organization_id': response.organizationId,
+            'authkit.authentication_method': response.authenticationMethod,
+          });
+
+          return response;
         });
 
       if (!accessToken || !refreshToken) {
@@ -94,21 +130,15 @@ export function handleAuth(options: HandleAuthOptions = {}) {
       // the hostname can be different from the one in the request
       const url = baseURL ? new URL(baseURL) : new URL(requestUrl.toString());
 
-      // Cleanup params
-      url.searchParams.delete('code');
-      url.searchParams.delete('state');
-
       // Redirect to the requested path and store the session
-      const returnPathname = returnPathnameState ?? returnPathnameOption;
-
-      // Extract pathname and search params from returnPathname
-      const parsedReturnUrl = new URL(returnPathname, 'https://placeholder.com');
-      url.pathname = parsedReturnUrl.pathname;
-      url.search = parsedReturnUrl.search;
+      const redirectUrl = new URL(
+        getSafeRedirect(toAppPath(returnPathnameState ?? returnPathnameOption, url), url),
+        url,
+      );
 
       // Fall back to standard Response if NextResponse is not available.
       // This is to support Next.js 13.
-      const response = redirectWithFallback(url.toString());
+      const response = redirectWithFallback(redirectUrl.toString());
       preventCaching(response.headers);
 
       // Always delete the PKCE cookie after handling the callback, regardless of success or error
@@ -117,6 +147,14 @@ export function handleAuth(options: HandleAuthOptions = {}) {
 
       await saveSession({ accessToken, refreshToken, user, impersonator, authenticationMethod }, request);
 
+      // An account created after the flow started was created by this sign-in
+      const isSignUp = startedAt !== undefined && Date.parse(user.createdAt) >= startedAt;
+      await emitAuthKitEvent({ type: isSignUp ? 'sign_up' : 'sign_in', user, organizationId, authenticationMethod });
+
+      if (impersonator) {
+        await emitAuthKitEvent({ type: 'impersonation_started', user, impersonator, organizationId });
+      }
+
       if (onSuccess) {
         await onSuccess({
           accessToken,
@@ -132,7 +170,17 @@ export function handleAuth(options: HandleAuthOptions = {}) {
 
       return response;
     } catch (error) {
-      console.error('[AuthKit callback error]', error);
+      getLogger().error('[AuthKit callback error]', {
+        path: errorContext.path,
+        reason: error instanceof CallbackError ? error.code : undefined,
+        error,
+      });
+      await emitAuthKitEvent({
+        type: 'callback_failed',
+        code: error instanceof CallbackError ? error.code : undefined,
+        error,
+        path: errorContext.path,
+      });
       const response = await errorResponse(request, error);
 
       // Always delete the PKCE cookie after handling the callback, regardless of success or error
@@ -146,7 +194,7 @@ export function handleAuth(options: HandleAuthOptions = {}) {
 
       return response;
     }
-  };
+  }
 
   async function errorResponse(request: NextRequest, error?: unknown) {
     if (onError) {
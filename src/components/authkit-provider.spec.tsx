@@ -2,14 +2,17 @@ import type { Mock } from 'vitest';
 import React from 'react';
 import { render, waitFor, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
-import { AuthKitProvider, useAuth } from './authkit-provider.js';
+import { AuthKitProvider, useAuth, useAuthKitActions } from './authkit-provider.js';
+import { tokenStore } from './tokenStore.js';
 import {
   checkSessionAction,
   getAuthAction,
   refreshAuthAction,
   handleSignOutAction,
   switchToOrganizationAction,
+  refreshAccessTokenAction,
 } from '../actions.js';
+import type { AuthKitActions } from '../actions.js';
 
 vi.mock('../actions', () => ({
   checkSessionAction: vi.fn(),
@@ -17,6 +20,8 @@ vi.mock('../actions', () => ({
   refreshAuthAction: vi.fn(),
   handleSignOutAction: vi.fn(),
   switchToOrganizationAction: vi.fn(),
+  getAccessTokenAction: vi.fn(),
+  refreshAccessTokenAction: vi.fn(),
 }));
 
 describe('AuthKitProvider', () => {
@@ -665,4 +670,40 @@ describe('useAuth', () => {
 
     expect(handleSignOutAction).toHaveBeenCalledWith({ returnTo: '/home' });
   });
+
+  it('should use the actions it is given', async () => {
+    const actions = {
+      checkSessionAction: vi.fn(),
+      handleSignOutAction: vi.fn(),
+      getOrganizationAction: vi.fn(),
+      getAuthAction: vi.fn().mockResolvedValue({ user: { email: 'test@example.com' }, sessionId: 'test-session' }),
+      refreshAuthAction: vi.fn(),
+      switchToOrganizationAction: vi.fn(),
+      getAccessTokenAction: vi.fn(),
+      refreshAccessTokenAction: vi.fn().mockResolvedValue({ accessToken: 'opaque-token' }),
+    } satisfies AuthKitActions;
+    let contextActions: AuthKitActions | undefined;
+
+    const TestComponent = () => {
+      contextActions = useAuthKitActions();
+      return null;
+    };
+
+    render(
+      <AuthKitProvider actions={actions}>
+        <TestComponent />
+      </AuthKitProvider>,
+    );
+
+    await waitFor(() => {
+      expect(actions.getAuthAction).toHaveBeenCalledTimes(1);
+    });
+    expect(getAuthAction).not.toHaveBeenCalled();
+    expect(contextActions).toBe(actions);
+
+    await tokenStore.refreshToken();
+    expect(actions.refreshAccessTokenAction).toHaveBeenCalledTimes(1);
+    expect(refreshAccessTokenAction).not.toHaveBeenCalled();
+    tokenStore.reset();
+  });
 });
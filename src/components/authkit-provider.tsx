@@ -1,15 +1,11 @@
 'use client';
 
 import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
-import {
-  checkSessionAction,
-  getAuthAction,
-  handleSignOutAction,
-  refreshAuthAction,
-  switchToOrganizationAction,
-} from '../actions.js';
+import * as defaultActions from '../actions.js';
+import type { AuthKitActions } from '../actions.js';
 import type { Impersonator, User } from '@workos-inc/node';
 import type { UserInfo, SwitchToOrganizationOptions, NoUserInfo } from '../interfaces.js';
+import { tokenStore } from './tokenStore.js';
 
 type AuthContextType = {
   user: User | null;
@@ -33,6 +29,8 @@ type AuthContextType = {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const ActionsContext = createContext<AuthKitActions>(defaultActions);
+
 interface AuthKitProviderProps {
   children: ReactNode;
   /**
@@ -44,9 +42,21 @@ interface AuthKitProviderProps {
    * Initial auth data from the server. If provided, the provider will skip the initial client-side fetch.
    */
   initialAuth?: Omit<UserInfo | NoUserInfo, 'accessToken'>;
+  /**
+   * Server actions to use instead of the default ones, for example the `actions`
+   * of an instance created with `createAuthKit`, re-exported from a `'use server'` file.
+   */
+  actions?: AuthKitActions;
 }
 
-export const AuthKitProvider = ({ children, onSessionExpired, initialAuth }: AuthKitProviderProps) => {
+export const AuthKitProvider = ({
+  children,
+  onSessionExpired,
+  initialAuth,
+  actions = defaultActions,
+}: AuthKitProviderProps) => {
+  const { checkSessionAction, getAuthAction, handleSignOutAction, refreshAuthAction, switchToOrganizationAction } =
+    actions;
   const [user, setUser] = useState<User | null>(initialAuth?.user ?? null);
   const [sessionId, setSessionId] = useState<string | undefined>(initialAuth?.sessionId);
   const [organizationId, setOrganizationId] = useState<string | undefined>(initialAuth?.organizationId);
@@ -59,6 +69,9 @@ export const AuthKitProvider = ({ children, onSessionExpired, initialAuth }: Aut
   const [loading, setLoading] = useState(!initialAuth);
   const redirectingRef = useRef(false);
 
+  // Set during render, since the effects of children that read the token run before ours
+  tokenStore.setActions(actions);
+
   // Redirect client-side to avoid CORS errors that occur when redirect()
   // is called from a server action to an external URL.
   const handleSignInRedirect = useCallback((auth: Record<string, unknown>): boolean => {
@@ -204,29 +217,38 @@ export const AuthKitProvider = ({ children, onSessionExpired, initialAuth }: Aut
   }, [onSessionExpired]);
 
   return (
-    <AuthContext.Provider
-      value={{
-        user,
-        sessionId,
-        organizationId,
-        role,
-        roles,
-        permissions,
-        entitlements,
-        featureFlags,
-        impersonator,
-        loading,
-        getAuth,
-        refreshAuth,
-        signOut,
-        switchToOrganization,
-      }}
-    >
-      {children}
-    </AuthContext.Provider>
+    <ActionsContext.Provider value={actions}>
+      <AuthContext.Provider
+        value={{
+          user,
+          sessionId,
+          organizationId,
+          role,
+          roles,
+          permissions,
+          entitlements,
+          featureFlags,
+          impersonator,
+          loading,
+          getAuth,
+          refreshAuth,
+          signOut,
+          switchToOrganization,
+        }}
+      >
+        {children}
+      </AuthContext.Provider>
+    </ActionsContext.Provider>
   );
 };
 
+/**
+ * Returns the server actions passed to `AuthKitProvider`.
+ */
+export function useAuthKitActions(): AuthKitActions {
+  return useContext(ActionsContext);
+}
+
 export function useAuth(options: {
   ensureSignedIn: true;
 }): AuthContextType & ({ loading: true; user: User | null } | { loading: false; user: User });
@@ -8,9 +8,13 @@ import * as React from 'react';
 import { handleSignOutAction } from '../actions.js';
 
 // Mock the useAuth hook
-vi.mock('./authkit-provider', () => ({
-  useAuth: vi.fn(),
-}));
+vi.mock('./authkit-provider', async () => {
+  const actions = await import('../actions.js');
+  return {
+    useAuth: vi.fn(),
+    useAuthKitActions: () => actions,
+  };
+});
 
 // Mock the getOrganizationAction
 vi.mock('../actions', () => ({
@@ -3,8 +3,7 @@
 import * as React from 'react';
 import { Button } from './button.js';
 import { MinMaxButton } from './min-max-button.js';
-import { getOrganizationAction, handleSignOutAction } from '../actions.js';
-import { useAuth } from './authkit-provider.js';
+import { useAuth, useAuthKitActions } from './authkit-provider.js';
 
 interface ImpersonationProps extends React.ComponentPropsWithoutRef<'div'> {
   side?: 'top' | 'bottom';
@@ -13,6 +12,7 @@ interface ImpersonationProps extends React.ComponentPropsWithoutRef<'div'> {
 
 export function Impersonation({ side = 'bottom', returnTo, ...props }: ImpersonationProps) {
   const { user, impersonator, organizationId } = useAuth();
+  const { getOrganizationAction, handleSignOutAction } = useAuthKitActions();
 
   const [organization, setOrganization] = React.useState<{ id: string; name: string } | null>(null);
 
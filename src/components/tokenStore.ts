@@ -1,5 +1,5 @@
 import { getAccessTokenAction, refreshAccessTokenAction } from '../actions.js';
-import type { RefreshAccessTokenActionResult } from '../actions.js';
+import type { AuthKitActions, RefreshAccessTokenActionResult } from '../actions.js';
 import { decodeJwt } from '../jwt.js';
 
 function unwrapRefreshResult(result: RefreshAccessTokenActionResult): string | undefined {
@@ -56,6 +56,18 @@ export class TokenStore {
   private refreshPromise: Promise<string | undefined> | null = null;
   private refreshTimeout: ReturnType<typeof setTimeout> | undefined;
   private fastCookieConsumed = false;
+  private actions: Pick<AuthKitActions, 'getAccessTokenAction' | 'refreshAccessTokenAction'> = {
+    getAccessTokenAction,
+    refreshAccessTokenAction,
+  };
+
+  /**
+   * Sets the server actions used to fetch and refresh the token. Called by
+   * `AuthKitProvider` with the actions it was given.
+   */
+  setActions(actions: Pick<AuthKitActions, 'getAccessTokenAction' | 'refreshAccessTokenAction'>) {
+    this.actions = actions;
+  }
 
   subscribe = (listener: () => void) => {
     this.listeners.add(listener);
@@ -341,12 +353,12 @@ export class TokenStore {
 
         if (!silent) {
           // Manual refresh - always force refresh
-          token = unwrapRefreshResult(await refreshAccessTokenAction());
+          token = unwrapRefreshResult(await this.actions.refreshAccessTokenAction());
         } else {
           // Silent refresh - only fetch from server if we don't have a local token
           if (!previousToken) {
             // No local token, need to check server
-            token = await getAccessTokenAction();
+            token = await this.actions.getAccessTokenAction();
             const tokenData = this.parseToken(token);
 
             // Set the token even if it's expiring, to preserve it in case refresh fails
@@ -360,14 +372,14 @@ export class TokenStore {
 
             // If the token from server is expiring, refresh it
             if (!token || (tokenData && tokenData.isExpiring)) {
-              const refreshedToken = unwrapRefreshResult(await refreshAccessTokenAction());
+              const refreshedToken = unwrapRefreshResult(await this.actions.refreshAccessTokenAction());
               if (refreshedToken) {
                 token = refreshedToken;
               }
             }
           } else {
             // We have a local token that needs refreshing (already checked by getAccessTokenSilently)
-            token = unwrapRefreshResult(await refreshAccessTokenAction());
+            token = unwrapRefreshResult(await this.actions.refreshAccessTokenAction());
           }
         }
 
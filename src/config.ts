@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  WORKOS_API_HOSTNAME,
+  WORKOS_API_HTTPS,
+  WORKOS_API_KEY,
+  WORKOS_API_PORT,
+  WORKOS_CLIENT_ID,
+  WORKOS_COOKIE_DOMAIN,
+  WORKOS_COOKIE_MAX_AGE,
+  WORKOS_COOKIE_NAME,
+  WORKOS_COOKIE_SAMESITE,
+  WORKOS_REDIRECT_URI,
+} from './env-variables.js';
+import type { AuthKitConfig } from './interfaces.js';
+
+const DEFAULT_COOKIE_MAX_AGE = 60 * 60 * 24 * 400;
+
+let config: AuthKitConfig = {};
+
+// Configuration of the `createAuthKit` instance the current call runs under, if any
+const instanceConfig = new AsyncLocalStorage<AuthKitConfig>();
+
+/**
+ * Configure process-wide AuthKit options that aren't tied to a single proxy or
+ * route handler, such as the server-side session store.
+ *
+ * Call this from a module that is imported by both your proxy/middleware and
+ * your callback route, so every entry point shares the same configuration.
+ * Options are merged into the existing configuration.
+ *
+ * @example
+ * ```typescript
+ * import { configureAuthKit, createMemorySessionStore } from '@workos-inc/authkit-nextjs';
+ *
+ * configureAuthKit({ sessionStore: createMemorySessionStore({ name: 'sessions' }) });
+ * ```
+ */
+export function configureAuthKit(options: AuthKitConfig): void {
+  config = { ...config, ...options };
+}
+
+/**
+ * Returns the options set for the current call: those of the `createAuthKit`
+ * instance it runs under, merged over those set with `configureAuthKit`.
+ */
+export function getAuthKitConfig(): AuthKitConfig {
+  const scoped = instanceConfig.getStore();
+
+  return scoped ? { ...config, ...scoped } : config;
+}
+
+/**
+ * Runs `fn` with `options` as the configuration of every AuthKit call it makes,
+ * including calls made after it awaits.
+ */
+export function runWithAuthKitConfig<T>(options: AuthKitConfig, fn: () => T): T {
+  return instanceConfig.run(options, fn);
+}
+
+function parseCookieMaxAge(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+
+  return Number.isFinite(parsed) ? parsed : DEFAULT_COOKIE_MAX_AGE;
+}
+
+/**
+ * Resolves the configuration for the current call, falling back to the
+ * environment variables for anything that isn't configured explicitly.
+ */
+export function getConfig() {
+  const options = getAuthKitConfig();
+
+  return {
+    ...options,
+    clientId: options.clientId ?? WORKOS_CLIENT_ID,
+    apiKey: options.apiKey ?? WORKOS_API_KEY,
+    redirectUri: options.redirectUri ?? WORKOS_REDIRECT_URI,
+    cookieName: options.cookieName ?? (WORKOS_COOKIE_NAME || 'wos-session'),
+    cookieDomain: options.cookieDomain ?? WORKOS_COOKIE_DOMAIN,
+    cookieMaxAge: options.cookieMaxAge ?? parseCookieMaxAge(WORKOS_COOKIE_MAX_AGE),
+    cookieSameSite: options.cookieSameSite ?? (WORKOS_COOKIE_SAMESITE || 'lax'),
+    apiHostname: options.apiHostname ?? WORKOS_API_HOSTNAME,
+    apiHttps: options.apiHttps ?? (WORKOS_API_HTTPS ? WORKOS_API_HTTPS === 'true' : true),
+    apiPort: options.apiPort ?? (WORKOS_API_PORT ? parseInt(WORKOS_API_PORT) : undefined),
+  };
+}
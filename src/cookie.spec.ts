@@ -327,4 +327,152 @@ describe('cookie.ts', () => {
       expect(stringOptions).not.toContain('SameSite=Strict');
     });
   });
+
+  describe('cookie chunking', () => {
+    it('should keep values that fit in a single cookie unchunked', async () => {
+      const { chunkCookieValue } = await import('./cookie');
+
+      expect(chunkCookieValue('wos-session', 'short-value')).toEqual([{ name: 'wos-session', value: 'short-value' }]);
+    });
+
+    it('should split oversized values into numbered chunks that reassemble to the original', async () => {
+      const { chunkCookieValue, readChunkedCookie } = await import('./cookie');
+      const value = 'a'.repeat(3800) + 'b'.repeat(3800) + 'c'.repeat(100);
+
+      const chunks = chunkCookieValue('wos-session', value);
+
+      expect(chunks.map(({ name }) => name)).toEqual(['wos-session.0', 'wos-session.1', 'wos-session.2']);
+      expect(chunks.every((chunk) => chunk.value.length <= 3800)).toBe(true);
+      expect(readChunkedCookie('wos-session', [...chunks].reverse())).toBe(value);
+    });
+
+    it('should prefer a non-empty unchunked cookie over chunks', async () => {
+      const { readChunkedCookie } = await import('./cookie');
+
+      const cookies = [
+        { name: 'wos-session', value: 'unchunked' },
+        { name: 'wos-session.0', value: 'chunked' },
+      ];
+
+      expect(readChunkedCookie('wos-session', cookies)).toBe('unchunked');
+      expect(readChunkedCookie('wos-session', [{ name: 'wos-session', value: '' }, cookies[1]])).toBe('chunked');
+    });
+
+    it('should return undefined when neither the cookie nor its chunks are present', async () => {
+      const { readChunkedCookie } = await import('./cookie');
+
+      expect(readChunkedCookie('wos-session', [{ name: 'other', value: 'value' }])).toBeUndefined();
+    });
+
+    it('should stop reassembling at the first missing chunk', async () => {
+      const { readChunkedCookie } = await import('./cookie');
+
+      const cookies = [
+        { name: 'wos-session.0', value: 'a' },
+        { name: 'wos-session.2', value: 'c' },
+      ];
+
+      expect(readChunkedCookie('wos-session', cookies)).toBe('a');
+    });
+
+    it('should identify stale chunks that were not written', async () => {
+      const { getStaleCookieChunkNames } = await import('./cookie');
+
+      const existing = ['wos-session.0', 'wos-session.1', 'wos-session.2', 'wos-session-other', 'unrelated'];
+      const written = [
+        { name: 'wos-session.0', value: 'a' },
+        { name: 'wos-session.1', value: 'b' },
+      ];
+
+      expect(getStaleCookieChunkNames('wos-session', existing, written)).toEqual(['wos-session.2']);
+    });
+
+    it('should only treat numbered suffixes as chunks', async () => {
+      const { isCookieChunkOf } = await import('./cookie');
+
+      expect(isCookieChunkOf('wos-session', 'wos-session')).toBe(true);
+      expect(isCookieChunkOf('wos-session', 'wos-session.12')).toBe(true);
+      expect(isCookieChunkOf('wos-session', 'wos-session.x')).toBe(false);
+      expect(isCookieChunkOf('wos-session', 'wos-session-other')).toBe(false);
+    });
+  });
+
+  describe('cookie passwords', () => {
+    const oldPassword = 'old-password-that-is-at-least-32-characters';
+    const newPassword = 'new-password-that-is-at-least-32-characters';
+
+    afterEach(async () => {
+      const { configureAuthKit } = await import('./config');
+      configureAuthKit({ cookiePasswords: undefined });
+    });
+
+    it('should default to WORKOS_COOKIE_PASSWORD', async () => {
+      const { getCookiePassword } = await import('./cookie');
+
+      expect(getCookiePassword()).toBe(process.env.WORKOS_COOKIE_PASSWORD);
+    });
+
+    it('should parse a password map from WORKOS_COOKIE_PASSWORDS', async () => {
+      const envVars = await import('./env-variables');
+      Object.defineProperty(envVars, 'WORKOS_COOKIE_PASSWORDS', {
+        value: JSON.stringify({ 1: oldPassword, 2: newPassword }),
+      });
+
+      const { getCookiePassword } = await import('./cookie');
+
+      expect(getCookiePassword()).toEqual({ 1: oldPassword, 2: newPassword });
+    });
+
+    it('should throw for malformed WORKOS_COOKIE_PASSWORDS', async () => {
+      const envVars = await import('./env-variables');
+      const { getCookiePassword } = await import('./cookie');
+
+      Object.defineProperty(envVars, 'WORKOS_COOKIE_PASSWORDS', { value: 'not-json', configurable: true });
+      expect(() => getCookiePassword()).toThrow('WORKOS_COOKIE_PASSWORDS must be valid JSON.');
+
+      Object.defineProperty(envVars, 'WORKOS_COOKIE_PASSWORDS', { value: '{"current":"password"}' });
+      expect(() => getCookiePassword()).toThrow(
+        'WORKOS_COOKIE_PASSWORDS must be a JSON object mapping numeric ids to passwords.',
+      );
+    });
+
+    it('should prefer configured cookie passwords', async () => {
+      const { configureAuthKit } = await import('./config');
+      const { getCookiePassword } = await import('./cookie');
+
+      configureAuthKit({ cookiePasswords: { 2: newPassword } });
+
+      expect(getCookiePassword()).toEqual({ 2: newPassword });
+    });
+
+    it('should require every configured password to be at least 32 characters', async () => {
+      const { configureAuthKit } = await import('./config');
+      const { isValidCookiePassword } = await import('./cookie');
+
+      configureAuthKit({ cookiePasswords: { 1: oldPassword, 2: newPassword } });
+      expect(isValidCookiePassword()).toBe(true);
+
+      configureAuthKit({ cookiePasswords: { 1: 'too-short', 2: newPassword } });
+      expect(isValidCookiePassword()).toBe(false);
+
+      configureAuthKit({ cookiePasswords: {} });
+      expect(isValidCookiePassword()).toBe(false);
+    });
+
+    it('should detect whether a value was sealed with the newest password', async () => {
+      const { sealData } = await import('iron-session');
+      const { configureAuthKit } = await import('./config');
+      const { isSealedWithCurrentPassword } = await import('./cookie');
+
+      const sealedWithOld = await sealData({ value: 1 }, { password: oldPassword });
+      const sealedWithNew = await sealData({ value: 1 }, { password: { 1: oldPassword, 2: newPassword } });
+
+      // A single password is recorded as id 1
+      expect(isSealedWithCurrentPassword(sealedWithOld)).toBe(true);
+
+      configureAuthKit({ cookiePasswords: { 1: oldPassword, 2: newPassword } });
+      expect(isSealedWithCurrentPassword(sealedWithOld)).toBe(false);
+      expect(isSealedWithCurrentPassword(sealedWithNew)).toBe(true);
+    });
+  });
 });
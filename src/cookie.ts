@@ -1,9 +1,5 @@
-import {
-  WORKOS_REDIRECT_URI,
-  WORKOS_COOKIE_MAX_AGE,
-  WORKOS_COOKIE_DOMAIN,
-  WORKOS_COOKIE_SAMESITE,
-} from './env-variables.js';
+import { getAuthKitConfig, getConfig } from './config.js';
+import { WORKOS_COOKIE_PASSWORD, WORKOS_COOKIE_PASSWORDS } from './env-variables.js';
 import { CookieOptions } from './interfaces.js';
 
 type ValidSameSite = CookieOptions['sameSite'];
@@ -11,6 +7,10 @@ type ValidSameSite = CookieOptions['sameSite'];
 const JWT_COOKIE_MAX_AGE = 30; // seconds
 const JWT_COOKIE_NAME = 'workos-access-token';
 
+// Browsers drop cookies whose name, value and attributes exceed 4096 bytes.
+// Leave headroom for the chunk name and the cookie attributes.
+const MAX_COOKIE_CHUNK_SIZE = 3800;
+
 function assertValidSamSite(sameSite: string): asserts sameSite is ValidSameSite {
   if (!['lax', 'strict', 'none'].includes(sameSite.toLowerCase())) {
     throw new Error(`Invalid SameSite value: ${sameSite}`);
@@ -35,10 +35,10 @@ export function getCookieOptions(
   asString: boolean = false,
   expired: boolean = false,
 ): CookieOptions | string {
-  const sameSite = WORKOS_COOKIE_SAMESITE || 'lax';
+  const { cookieSameSite: sameSite, cookieMaxAge, cookieDomain, redirectUri: defaultRedirectUri } = getConfig();
   assertValidSamSite(sameSite);
 
-  const urlString = redirectUri || WORKOS_REDIRECT_URI;
+  const urlString = redirectUri || defaultRedirectUri;
   // Default to secure=true when no URL available (production default)
   // Developers should set WORKOS_REDIRECT_URI for proper local dev
   let secure: boolean;
@@ -56,21 +56,13 @@ export function getCookieOptions(
     secure = true;
   }
 
-  let maxAge: number;
-  if (expired) {
-    maxAge = 0;
-  } else if (WORKOS_COOKIE_MAX_AGE) {
-    const parsed = parseInt(WORKOS_COOKIE_MAX_AGE, 10);
-    maxAge = Number.isFinite(parsed) ? parsed : 60 * 60 * 24 * 400;
-  } else {
-    maxAge = 60 * 60 * 24 * 400;
-  }
+  const maxAge = expired ? 0 : cookieMaxAge;
 
   if (asString) {
     const capitalizedSameSite = sameSite.charAt(0).toUpperCase() + sameSite.slice(1).toLowerCase();
     const parts = ['Path=/', 'HttpOnly', `SameSite=${capitalizedSameSite}`, `Max-Age=${maxAge}`];
-    if (WORKOS_COOKIE_DOMAIN) {
-      parts.push(`Domain=${WORKOS_COOKIE_DOMAIN}`);
+    if (cookieDomain) {
+      parts.push(`Domain=${cookieDomain}`);
     }
     if (secure) {
       parts.push('Secure');
@@ -88,7 +80,7 @@ export function getCookieOptions(
     // It's fine to have a long cookie expiry date as the access/refresh tokens
     // act as the actual time-limited aspects of the session.
     maxAge,
-    domain: WORKOS_COOKIE_DOMAIN || '',
+    domain: cookieDomain || '',
   };
 }
 
@@ -132,6 +124,7 @@ export function getJwtCookie(body: string | null, requestUrlOrRedirectUri?: stri
 
   // Force Secure in production, except for localhost
   let secure = false;
+  const { redirectUri } = getConfig();
   const isProduction = process.env.NODE_ENV === 'production';
 
   if (requestUrlOrRedirectUri) {
@@ -144,7 +137,7 @@ export function getJwtCookie(body: string | null, requestUrlOrRedirectUri?: stri
       // If URL parsing fails, default to secure in production
       secure = isProduction;
       // If it's not a valid URL, fall back to WORKOS_REDIRECT_URI
-      const fallbackUrl = WORKOS_REDIRECT_URI;
+      const fallbackUrl = redirectUri;
       if (fallbackUrl) {
         try {
           const url = new URL(fallbackUrl);
@@ -154,10 +147,10 @@ export function getJwtCookie(body: string | null, requestUrlOrRedirectUri?: stri
         }
       }
     }
-  } else if (WORKOS_REDIRECT_URI) {
+  } else if (redirectUri) {
     // No URL provided, check WORKOS_REDIRECT_URI
     try {
-      const url = new URL(WORKOS_REDIRECT_URI);
+      const url = new URL(redirectUri);
       secure = url.protocol === 'https:';
     } catch {
       secure = false;
@@ -179,3 +172,141 @@ export function getJwtCookie(body: string | null, requestUrlOrRedirectUri?: stri
 
   return parts.join('; ');
 }
+
+export interface CookieChunk {
+  name: string;
+  value: string;
+}
+
+/**
+ * Whether `name` is the cookie `cookieName` itself or one of its chunks
+ * (`cookieName.0`, `cookieName.1`, …).
+ */
+export function isCookieChunkOf(cookieName: string, name: string): boolean {
+  if (name === cookieName) {
+    return true;
+  }
+
+  const prefix = `${cookieName}.`;
+  return name.startsWith(prefix) && /^\d+$/.test(name.slice(prefix.length));
+}
+
+/**
+ * Splits a cookie value that would exceed the browser's per-cookie size limit
+ * across `name.0`, `name.1`, … Values that fit are kept in a single cookie
+ * named `name`.
+ */
+export function chunkCookieValue(name: string, value: string): CookieChunk[] {
+  if (value.length <= MAX_COOKIE_CHUNK_SIZE) {
+    return [{ name, value }];
+  }
+
+  const chunks: CookieChunk[] = [];
+  for (let index = 0; index * MAX_COOKIE_CHUNK_SIZE < value.length; index++) {
+    chunks.push({
+      name: `${name}.${index}`,
+      value: value.slice(index * MAX_COOKIE_CHUNK_SIZE, (index + 1) * MAX_COOKIE_CHUNK_SIZE),
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Reads a cookie that may have been split by `chunkCookieValue`, reassembling
+ * its chunks in order. A non-empty unchunked cookie takes precedence over chunks;
+ * an empty one is a cookie that was just expired in favour of chunks.
+ */
+export function readChunkedCookie(name: string, cookies: CookieChunk[]): string | undefined {
+  const byName = new Map(cookies.map((cookie) => [cookie.name, cookie.value]));
+
+  const unchunked = byName.get(name);
+  if (unchunked) {
+    return unchunked;
+  }
+
+  let value = '';
+  let index = 0;
+  while (byName.has(`${name}.${index}`)) {
+    value += byName.get(`${name}.${index}`);
+    index++;
+  }
+
+  return index > 0 ? value : undefined;
+}
+
+/**
+ * Returns the names of existing cookies belonging to `name` (the unchunked
+ * cookie or any of its chunks) that are not part of `written`, so they can be
+ * expired when a value shrinks or switches between chunked and unchunked.
+ */
+export function getStaleCookieChunkNames(name: string, existingNames: string[], written: CookieChunk[]): string[] {
+  const writtenNames = new Set(written.map((chunk) => chunk.name));
+
+  return existingNames.filter((existing) => isCookieChunkOf(name, existing) && !writtenNames.has(existing));
+}
+
+function parseCookiePasswords(value: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('WORKOS_COOKIE_PASSWORDS must be valid JSON.', { cause: error });
+  }
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    Object.entries(parsed).some(([id, password]) => !/^\d+$/.test(id) || typeof password !== 'string')
+  ) {
+    throw new Error('WORKOS_COOKIE_PASSWORDS must be a JSON object mapping numeric ids to passwords.');
+  }
+
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Returns the password(s) used to seal and unseal cookies, in the form
+ * iron-session accepts: either a single password, or a map of numeric ids to
+ * passwords when rotating. With a map, unsealing accepts any listed password
+ * and sealing uses the one with the highest id.
+ */
+export function getCookiePassword(): string | Record<string, string> {
+  const { cookiePasswords, cookiePassword } = getAuthKitConfig();
+  if (cookiePasswords) {
+    return cookiePasswords;
+  }
+
+  if (cookiePassword !== undefined) {
+    return cookiePassword;
+  }
+
+  if (WORKOS_COOKIE_PASSWORDS) {
+    return parseCookiePasswords(WORKOS_COOKIE_PASSWORDS);
+  }
+
+  return WORKOS_COOKIE_PASSWORD;
+}
+
+/**
+ * Whether every configured cookie password is long enough to seal cookies.
+ */
+export function isValidCookiePassword(): boolean {
+  const password = getCookiePassword();
+  const passwords = typeof password === 'string' ? [password] : Object.values(password);
+
+  return passwords.length > 0 && passwords.every((value) => Boolean(value) && value.length >= 32);
+}
+
+/**
+ * Whether a sealed value was sealed with the current (newest) cookie password.
+ * iron-session records the id of the sealing password in the seal, and a single
+ * string password is always recorded as id `1`.
+ */
+export function isSealedWithCurrentPassword(sealed: string): boolean {
+  const password = getCookiePassword();
+  const currentId = typeof password === 'string' ? '1' : String(Math.max(...Object.keys(password).map(Number)));
+
+  return sealed.split('*')[1] === currentId;
+}
@@ -0,0 +1,124 @@
+import type { NextFetchEvent } from 'next/server';
+import { NextRequest } from 'next/server';
+import { cookies, headers } from 'next/headers';
+import { unsealData } from 'iron-session';
+import type { User } from '@workos-inc/node';
+import { getSignInUrl } from './auth.js';
+import { createAuthKit, createAuthKitActions } from './create-authkit.js';
+import { generateTestToken } from './test-helpers.js';
+import { getWorkOS } from './workos.js';
+
+describe('createAuthKit', () => {
+  const cookiePassword = 'a-cookie-password-for-this-instance-only';
+
+  const authKit = createAuthKit({
+    clientId: 'client_instance',
+    apiKey: 'sk_test_instance',
+    cookiePassword,
+    cookieName: 'instance-session',
+    redirectUri: 'https://instance.example.com/callback',
+  });
+
+  beforeEach(async () => {
+    const nextCookies = await cookies();
+    // @ts-expect-error - _reset is part of the mock
+    nextCookies._reset();
+
+    const nextHeaders = await headers();
+    // @ts-expect-error - _reset is part of the mock
+    nextHeaders._reset();
+  });
+
+  it('uses the instance configuration for sign-in URLs', async () => {
+    const url = new URL(await authKit.getSignInUrl());
+
+    expect(url.searchParams.get('client_id')).toBe('client_instance');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://instance.example.com/callback');
+  });
+
+  it('falls back to the environment variables outside of an instance', async () => {
+    const url = new URL(await getSignInUrl());
+
+    expect(url.searchParams.get('client_id')).toBe(process.env.WORKOS_CLIENT_ID);
+  });
+
+  it('keeps concurrent calls on different instances apart', async () => {
+    const otherAuthKit = createAuthKit({ clientId: 'client_other' });
+
+    const [url, otherUrl] = await Promise.all([authKit.getSignInUrl(), otherAuthKit.getSignInUrl()]);
+
+    expect(new URL(url).searchParams.get('client_id')).toBe('client_instance');
+    expect(new URL(otherUrl).searchParams.get('client_id')).toBe('client_other');
+  });
+
+  it('returns a WorkOS client for the instance API key', () => {
+    const workos = authKit.getWorkOS();
+
+    expect(workos.key).toBe('sk_test_instance');
+    expect(workos).toBe(authKit.getWorkOS());
+    expect(getWorkOS()).not.toBe(workos);
+  });
+
+  it('saves sessions with the instance cookie name and password', async () => {
+    await authKit.saveSession(
+      {
+        accessToken: await generateTestToken(),
+        refreshToken: 'refresh_token_123',
+        user: { id: 'user_123' } as User,
+      },
+      'https://instance.example.com',
+    );
+
+    const nextCookies = await cookies();
+    const sealed = nextCookies.get('instance-session')!.value;
+
+    expect(nextCookies.get('wos-session')).toBeUndefined();
+    expect(await unsealData(sealed, { password: cookiePassword })).toMatchObject({ refreshToken: 'refresh_token_123' });
+  });
+
+  it('binds the proxy to the instance configuration', async () => {
+    const proxy = authKit.authkitProxy({ middlewareAuth: { enabled: true, unauthenticatedPaths: [] } });
+
+    const response = await proxy(
+      new NextRequest(new URL('https://instance.example.com/protected')),
+      {} as NextFetchEvent,
+    );
+    const location = new URL(response!.headers.get('location')!);
+
+    expect(location.searchParams.get('client_id')).toBe('client_instance');
+  });
+
+  it('binds the provider actions to the instance configuration', async () => {
+    const nextHeaders = await headers();
+    nextHeaders.set('x-workos-middleware', 'true');
+
+    const auth = await authKit.actions.getAuthAction({ ensureSignedIn: true });
+    const signInUrl = new URL((auth as { signInUrl: string }).signInUrl);
+
+    expect(auth.user).toBeNull();
+    expect(signInUrl.searchParams.get('client_id')).toBe('client_instance');
+    expect(signInUrl.searchParams.get('redirect_uri')).toBe('https://instance.example.com/callback');
+  });
+});
+
+describe('createAuthKitActions', () => {
+  beforeEach(async () => {
+    const nextHeaders = await headers();
+    // @ts-expect-error - _reset is part of the mock
+    nextHeaders._reset();
+  });
+
+  it('resolves the configuration from the host recorded by the middleware', async () => {
+    const resolveConfig = vi.fn(() => ({ clientId: 'client_brand' }));
+    const actions = createAuthKitActions({ resolveConfig });
+    const nextHeaders = await headers();
+    nextHeaders.set('x-workos-middleware', 'true');
+    nextHeaders.set('x-workos-host', 'brand.example.com');
+
+    const auth = await actions.getAuthAction({ ensureSignedIn: true });
+    const signInUrl = new URL((auth as { signInUrl: string }).signInUrl);
+
+    expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+    expect(signInUrl.searchParams.get('client_id')).toBe('client_brand');
+  });
+});
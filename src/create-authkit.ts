@@ -0,0 +1,134 @@
+import 'server-only';
+
+import * as actions from './actions.js';
+import type { AuthKitActions } from './actions.js';
+import { getSignInUrl, getSignUpUrl, signOut, switchToOrganization } from './auth.js';
+import { handleAuth } from './authkit-callback-route.js';
+import { runWithAuthKitConfig } from './config.js';
+import type {
+  AuthKitConfig,
+  AuthKitConfigResolver,
+  AuthkitMiddlewareOptions,
+  HandleAuthOptions,
+} from './interfaces.js';
+import { authkit, authkitProxy } from './middleware.js';
+import { getSafeRedirect } from './redirects.js';
+import {
+  checkRecentAuth,
+  getTokenClaims,
+  refreshSession,
+  requireRecentAuth,
+  runWithResolvedConfig,
+  saveSession,
+  withAuth,
+} from './session.js';
+import { listSessions, revokeOtherSessions, revokeSession } from './user-sessions.js';
+import { withPrincipal } from './principal.js';
+import { validateApiKey } from './validate-api-key.js';
+import { getWorkOS } from './workos.js';
+
+/**
+ * Create an AuthKit instance with its own configuration, instead of relying on
+ * environment variables alone. Every function on the instance uses `config`,
+ * falling back to the options set with `configureAuthKit` and then to the
+ * environment variables for anything it leaves out.
+ *
+ * Use the same instance for the proxy/middleware, the callback route and every
+ * server-side call, since they must agree on the cookie password and client.
+ * Pass `actions` to `AuthKitProvider` so its server actions use the instance
+ * too.
+ *
+ * @example
+ * ```typescript
+ * // lib/authkit.ts
+ * import { createAuthKit } from '@workos-inc/authkit-nextjs';
+ *
+ * export const authKit = createAuthKit({
+ *   clientId: secrets.workosClientId,
+ *   apiKey: secrets.workosApiKey,
+ *   cookiePassword: secrets.cookiePassword,
+ *   redirectUri: 'https://example.com/callback',
+ * });
+ *
+ * // proxy.ts
+ * export default authKit.authkitProxy();
+ *
+ * // app/callback/route.ts
+ * export const GET = authKit.handleAuth();
+ *
+ * // app/authkit-actions.ts
+ * 'use server';
+ * export const checkSessionAction = authKit.actions.checkSessionAction;
+ * // ...and the other actions
+ * ```
+ */
+export function createAuthKit(config: AuthKitConfig) {
+  const bind = <T extends (...args: never[]) => unknown>(fn: T): T =>
+    ((...args: Parameters<T>) => runWithAuthKitConfig(config, () => fn(...args))) as T;
+
+  return {
+    authkitProxy: <TBearerAuth extends boolean = false>(options?: AuthkitMiddlewareOptions<TBearerAuth>) =>
+      bind(bind(authkitProxy<TBearerAuth>)(options)),
+    authkit: bind(authkit),
+    handleAuth: (options?: HandleAuthOptions) => bind(bind(handleAuth)(options)),
+    withAuth: bind(withAuth),
+    withPrincipal: bind(withPrincipal),
+    refreshSession: bind(refreshSession),
+    saveSession: bind(saveSession),
+    signOut: bind(signOut),
+    getSignInUrl: bind(getSignInUrl),
+    getSignUpUrl: bind(getSignUpUrl),
+    switchToOrganization: bind(switchToOrganization),
+    getTokenClaims: bind(getTokenClaims),
+    checkRecentAuth: bind(checkRecentAuth),
+    requireRecentAuth: bind(requireRecentAuth),
+    getSafeRedirect: bind(getSafeRedirect),
+    validateApiKey: bind(validateApiKey),
+    listSessions: bind(listSessions),
+    revokeSession: bind(revokeSession),
+    revokeOtherSessions: bind(revokeOtherSessions),
+    getWorkOS: bind(getWorkOS),
+    actions: bindActions(bind),
+  };
+}
+
+/**
+ * Create the `AuthKitProvider` server actions for a multi-tenant deployment.
+ * Each action uses the configuration `resolveConfig` picks for the host the
+ * proxy/middleware recorded for the request.
+ *
+ * @example
+ * ```typescript
+ * // app/authkit-actions.ts
+ * 'use server';
+ * import { createAuthKitActions } from '@workos-inc/authkit-nextjs';
+ *
+ * const actions = createAuthKitActions({ resolveConfig });
+ * export const checkSessionAction = actions.checkSessionAction;
+ * // ...and the other actions
+ * ```
+ */
+export function createAuthKitActions({ resolveConfig }: { resolveConfig: AuthKitConfigResolver }): AuthKitActions {
+  return bindActions(
+    <T extends (...args: never[]) => unknown>(fn: T): T =>
+      ((...args: Parameters<T>) => runWithResolvedConfig(resolveConfig, async () => fn(...args))) as T,
+  );
+}
+
+/**
+ * Wraps each of the `AuthKitProvider` server actions with `bind`.
+ */
+function bindActions(bind: <T extends (...args: never[]) => unknown>(fn: T) => T): AuthKitActions {
+  return {
+    checkSessionAction: bind(actions.checkSessionAction),
+    handleSignOutAction: bind(actions.handleSignOutAction),
+    getOrganizationAction: bind(actions.getOrganizationAction),
+    getAuthAction: bind(actions.getAuthAction),
+    refreshAuthAction: bind(actions.refreshAuthAction),
+    switchToOrganizationAction: bind(actions.switchToOrganizationAction),
+    getAccessTokenAction: bind(actions.getAccessTokenAction),
+    refreshAccessTokenAction: bind(actions.refreshAccessTokenAction),
+  };
+}
+
+export type AuthKitInstance = ReturnType<typeof createAuthKit>;
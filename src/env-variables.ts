@@ -13,6 +13,7 @@ const WORKOS_COOKIE_MAX_AGE = getEnvVariable('WORKOS_COOKIE_MAX_AGE');
 const WORKOS_COOKIE_NAME = getEnvVariable('WORKOS_COOKIE_NAME');
 const WORKOS_COOKIE_SAMESITE = getEnvVariable('WORKOS_COOKIE_SAMESITE') as 'lax' | 'strict' | 'none' | undefined;
 const WORKOS_CLAIM_TOKEN = getEnvVariable('WORKOS_CLAIM_TOKEN');
+const WORKOS_COOKIE_PASSWORDS = getEnvVariable('WORKOS_COOKIE_PASSWORDS');
 
 // Required env variables
 const WORKOS_API_KEY = getEnvVariable('WORKOS_API_KEY') ?? '';
@@ -31,6 +32,7 @@ export {
   WORKOS_COOKIE_MAX_AGE,
   WORKOS_COOKIE_NAME,
   WORKOS_COOKIE_PASSWORD,
+  WORKOS_COOKIE_PASSWORDS,
   WORKOS_REDIRECT_URI,
   WORKOS_COOKIE_SAMESITE,
 };
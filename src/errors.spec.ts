@@ -1,4 +1,4 @@
-import { AuthKitError, TokenRefreshError, getSessionErrorContext } from './errors.js';
+import { AuthKitError, SessionDecryptionError, TokenRefreshError, getSessionErrorContext } from './errors.js';
 import type { Session } from './interfaces.js';
 import type { User } from '@workos-inc/node';
 
@@ -51,6 +51,17 @@ describe('TokenRefreshError', () => {
   });
 });
 
+describe('SessionDecryptionError', () => {
+  it('creates error with correct name, cause and inheritance', () => {
+    const originalError = new Error('Bad hmac value');
+    const error = new SessionDecryptionError('Failed to unseal the session cookie', originalError);
+
+    expect(error.name).toBe('SessionDecryptionError');
+    expect(error.cause).toBe(originalError);
+    expect(error).toBeInstanceOf(AuthKitError);
+  });
+});
+
 describe('getSessionErrorContext', () => {
   function createTestJwt(payload: Record<string, unknown>): string {
     const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
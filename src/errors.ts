@@ -72,6 +72,18 @@ export class TokenRefreshError extends AuthKitError {
   }
 }
 
+/**
+ * Thrown when the session cookie (or the `x-workos-session` header) can't be
+ * unsealed: it was tampered with, truncated, or sealed with a cookie password
+ * that is no longer configured. Callers should treat the request as signed out.
+ */
+export class SessionDecryptionError extends AuthKitError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'SessionDecryptionError';
+  }
+}
+
 export function getSessionErrorContext(session?: Session | null): TokenRefreshErrorContext {
   if (!session?.accessToken) {
     return {};
@@ -0,0 +1,104 @@
+import type { User } from '@workos-inc/node';
+import { configureAuthKit, runWithAuthKitConfig } from './config.js';
+import { createAuthKitEvents, emitAuthKitEvent } from './events.js';
+
+describe('events', () => {
+  const user = { id: 'user_123' } as User;
+
+  it('calls the listeners of the emitted event type', async () => {
+    const events = createAuthKitEvents();
+    const onSignIn = vi.fn();
+    const onSignOut = vi.fn();
+    events.on('sign_in', onSignIn);
+    events.on('sign_out', onSignOut);
+
+    await events.emit({ type: 'sign_in', user, organizationId: 'org_123' });
+
+    expect(onSignIn).toHaveBeenCalledWith({ type: 'sign_in', user, organizationId: 'org_123' });
+    expect(onSignOut).not.toHaveBeenCalled();
+  });
+
+  it('calls wildcard listeners for every event', async () => {
+    const events = createAuthKitEvents();
+    const listener = vi.fn();
+    events.on('*', listener);
+
+    await events.emit({ type: 'sign_in', user });
+    await events.emit({ type: 'sign_out', userId: 'user_123', sessionId: 'session_123' });
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['sign_in', 'sign_out']);
+  });
+
+  it('stops calling a listener once it unsubscribes', async () => {
+    const events = createAuthKitEvents();
+    const listener = vi.fn();
+    const unsubscribe = events.on('sign_in', listener);
+
+    unsubscribe();
+    await events.emit({ type: 'sign_in', user });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('waits for async listeners', async () => {
+    const events = createAuthKitEvents();
+    const delivered: string[] = [];
+    events.on('sign_in', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      delivered.push('sign_in');
+    });
+
+    await events.emit({ type: 'sign_in', user });
+
+    expect(delivered).toEqual(['sign_in']);
+  });
+
+  it('logs failing listeners without affecting the others', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = createAuthKitEvents();
+    const listener = vi.fn();
+    events.on('sign_in', () => {
+      throw new Error('Analytics unavailable');
+    });
+    events.on('sign_in', listener);
+
+    await expect(events.emit({ type: 'sign_in', user })).resolves.toBeUndefined();
+
+    expect(listener).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith('AuthKit event listener failed', {
+      event: 'sign_in',
+      error: expect.objectContaining({ message: 'Analytics unavailable' }),
+    });
+  });
+
+  describe('emitAuthKitEvent', () => {
+    it('emits to the configured emitter', async () => {
+      const events = createAuthKitEvents();
+      const listener = vi.fn();
+      events.on('session_invalid', listener);
+      configureAuthKit({ events });
+
+      try {
+        await emitAuthKitEvent({ type: 'session_invalid', reason: 'idle_timeout', userId: 'user_123' });
+      } finally {
+        configureAuthKit({ events: undefined });
+      }
+
+      expect(listener).toHaveBeenCalledWith({ type: 'session_invalid', reason: 'idle_timeout', userId: 'user_123' });
+    });
+
+    it('emits to the emitter of the current instance', async () => {
+      const events = createAuthKitEvents();
+      const listener = vi.fn();
+      events.on('*', listener);
+
+      await runWithAuthKitConfig({ events }, () => emitAuthKitEvent({ type: 'sign_in', user }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing when no emitter is configured', async () => {
+      await expect(emitAuthKitEvent({ type: 'sign_in', user })).resolves.toBeUndefined();
+    });
+  });
+});
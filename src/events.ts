@@ -0,0 +1,57 @@
+import { getAuthKitConfig } from './config.js';
+import type { AuthKitEvent, AuthKitEventListener, AuthKitEvents, AuthKitEventType } from './interfaces.js';
+import { getLogger } from './logger.js';
+
+/**
+ * Creates an event emitter for the sign-in, sign-out and session events of
+ * AuthKit, e.g. to feed analytics or an audit trail.
+ *
+ * Listeners are awaited before the request continues, so keep them fast or
+ * hand the work off to a queue.
+ *
+ * @example
+ * ```typescript
+ * import { configureAuthKit, createAuthKitEvents } from '@workos-inc/authkit-nextjs';
+ *
+ * const events = createAuthKitEvents();
+ * events.on('sign_in', ({ user }) => analytics.track('Signed in', { userId: user.id }));
+ *
+ * configureAuthKit({ events });
+ * ```
+ */
+export function createAuthKitEvents(): AuthKitEvents {
+  const listeners = new Map<AuthKitEventType | '*', Set<AuthKitEventListener>>();
+
+  return {
+    on(type: AuthKitEventType | '*', listener: AuthKitEventListener) {
+      let subscribed = listeners.get(type);
+      if (!subscribed) {
+        subscribed = new Set();
+        listeners.set(type, subscribed);
+      }
+      subscribed.add(listener);
+
+      return () => {
+        subscribed.delete(listener);
+      };
+    },
+    async emit(event) {
+      const subscribed = [...(listeners.get(event.type) ?? []), ...(listeners.get('*') ?? [])];
+
+      const results = await Promise.allSettled(subscribed.map(async (listener) => listener(event)));
+
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          getLogger().error('AuthKit event listener failed', { event: event.type, error: result.reason });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Emits `event` to the emitter configured with `configureAuthKit`, if any.
+ */
+export async function emitAuthKitEvent(event: AuthKitEvent): Promise<void> {
+  await getAuthKitConfig().events?.emit(event);
+}
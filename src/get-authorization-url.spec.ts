@@ -164,7 +164,7 @@ describe('getAuthorizationUrl', () => {
       );
       expect(warnSpy).toHaveBeenCalledWith(
         '[authkit-nextjs]: Failed to exchange WORKOS_CLAIM_TOKEN. Try removing WORKOS_CLAIM_TOKEN from your environment variables.',
-        expect.any(Error),
+        { error: expect.objectContaining({ message: 'Network error' }) },
       );
       fetchSpy.mockRestore();
       warnSpy.mockRestore();
@@ -188,6 +188,7 @@ describe('getAuthorizationUrl', () => {
       );
       expect(warnSpy).toHaveBeenCalledWith(
         '[authkit-nextjs]: Failed to exchange WORKOS_CLAIM_TOKEN (401). Try removing WORKOS_CLAIM_TOKEN from your environment variables.',
+        { status: 401 },
       );
       fetchSpy.mockRestore();
       warnSpy.mockRestore();
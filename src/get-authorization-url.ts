@@ -1,23 +1,37 @@
 import { sealData } from 'iron-session';
 import { headers } from 'next/headers';
-import { WORKOS_CLAIM_TOKEN, WORKOS_CLIENT_ID, WORKOS_COOKIE_PASSWORD, WORKOS_REDIRECT_URI } from './env-variables.js';
+import { getCookiePassword } from './cookie.js';
+import { getConfig } from './config.js';
+import { WORKOS_CLAIM_TOKEN } from './env-variables.js';
 import { GetAuthURLOptions, GetAuthURLResult, State } from './interfaces.js';
+import { getLogger } from './logger.js';
+import { withSpan } from './tracing.js';
 import { getWorkOS } from './workos.js';
 
 async function fetchClaimNonce(baseURL: string): Promise<string | null> {
+  return withSpan('authkit.fetch_claim_nonce', {}, async (span) => {
+    const nonce = await requestClaimNonce(baseURL);
+    span.setAttribute('authkit.claim_nonce.received', nonce !== null);
+
+    return nonce;
+  });
+}
+
+async function requestClaimNonce(baseURL: string): Promise<string | null> {
   try {
     const response = await fetch(`${baseURL}/x/one-shot-environments/claim-nonces`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        client_id: WORKOS_CLIENT_ID,
+        client_id: getConfig().clientId,
         claim_token: WORKOS_CLAIM_TOKEN,
       }),
     });
     if (!response.ok) {
       if (response.status !== 409) {
-        console.warn(
+        getLogger().warn(
           `[authkit-nextjs]: Failed to exchange WORKOS_CLAIM_TOKEN (${response.status}). Try removing WORKOS_CLAIM_TOKEN from your environment variables.`,
+          { status: response.status },
         );
       }
       return null;
@@ -25,15 +39,23 @@ async function fetchClaimNonce(baseURL: string): Promise<string | null> {
     const data = await response.json();
     return data.nonce;
   } catch (error) {
-    console.warn(
+    getLogger().warn(
       '[authkit-nextjs]: Failed to exchange WORKOS_CLAIM_TOKEN. Try removing WORKOS_CLAIM_TOKEN from your environment variables.',
-      error,
+      { error },
     );
     return null;
   }
 }
 
-async function getAuthorizationUrl({
+async function getAuthorizationUrl(options: GetAuthURLOptions = {}): Promise<GetAuthURLResult> {
+  return withSpan(
+    'authkit.get_authorization_url',
+    { 'authkit.organization_id': options.organizationId, 'authkit.screen_hint': options.screenHint },
+    () => buildAuthorizationUrl(options),
+  );
+}
+
+async function buildAuthorizationUrl({
   returnPathname,
   screenHint,
   organizationId,
@@ -60,14 +82,16 @@ async function getAuthorizationUrl({
     codeVerifier: pkce.codeVerifier,
     customState,
     returnPathname,
+    startedAt: Date.now(),
   } satisfies State;
 
-  const sealedState = await sealData(state, { password: WORKOS_COOKIE_PASSWORD, ttl: 600 });
+  const sealedState = await sealData(state, { password: getCookiePassword(), ttl: 600 });
 
+  const { clientId, redirectUri: defaultRedirectUri } = getConfig();
   const url = getWorkOS().userManagement.getAuthorizationUrl({
     provider: 'authkit' as const,
-    clientId: WORKOS_CLIENT_ID,
-    redirectUri: redirectUriToUse ?? WORKOS_REDIRECT_URI,
+    clientId,
+    redirectUri: redirectUriToUse ?? defaultRedirectUri,
     screenHint,
     organizationId,
     loginHint,
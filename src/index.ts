@@ -1,7 +1,13 @@
 import { getSignInUrl, getSignUpUrl, signOut, switchToOrganization } from './auth.js';
 import { handleAuth } from './authkit-callback-route.js';
-import { AuthKitError, CallbackError, TokenRefreshError } from './errors.js';
+import { AuthKitError, CallbackError, SessionDecryptionError, TokenRefreshError } from './errors.js';
 import { authkit, authkitMiddleware, authkitProxy } from './middleware.js';
+import { configureAuthKit } from './config.js';
+import { createAuthKit, createAuthKitActions } from './create-authkit.js';
+import { createAuthKitEvents } from './events.js';
+import { getSafeRedirect } from './redirects.js';
+import { createMemoryRefreshCache } from './refresh-cache.js';
+import { createMemorySessionStore } from './session-store.js';
 export {
   applyResponseHeaders,
   handleAuthkitHeaders,
@@ -14,7 +20,16 @@ export {
   type AuthkitRequestHeader,
   type HandleAuthkitHeadersOptions,
 } from './middleware-helpers.js';
-import { checkRecentAuth, getTokenClaims, refreshSession, saveSession, withAuth } from './session.js';
+import {
+  checkRecentAuth,
+  getTokenClaims,
+  refreshSession,
+  requireRecentAuth,
+  saveSession,
+  withAuth,
+} from './session.js';
+import { listSessions, revokeOtherSessions, revokeSession } from './user-sessions.js';
+import { withPrincipal } from './principal.js';
 import { validateApiKey } from './validate-api-key.js';
 import { getFeatureFlagsRuntimeClient } from './feature-flags.js';
 import { getWorkOS } from './workos.js';
@@ -22,25 +37,42 @@ import { getWorkOS } from './workos.js';
 export * from './interfaces.js';
 
 export type { CallbackErrorCode, CallbackErrorContext } from './errors.js';
+export type { MemoryRefreshCacheOptions } from './refresh-cache.js';
+export type { MemorySessionStoreOptions } from './session-store.js';
+export type { AuthKitActions } from './actions.js';
+export type { AuthKitInstance } from './create-authkit.js';
 
 export {
   AuthKitError,
   CallbackError,
+  SessionDecryptionError,
   TokenRefreshError,
   authkit,
   authkitMiddleware,
   authkitProxy,
   checkRecentAuth,
+  configureAuthKit,
+  createAuthKit,
+  createAuthKitActions,
+  createAuthKitEvents,
+  createMemoryRefreshCache,
+  createMemorySessionStore,
   getSignInUrl,
   getSignUpUrl,
   getFeatureFlagsRuntimeClient,
+  getSafeRedirect,
   getTokenClaims,
   getWorkOS,
   handleAuth,
+  listSessions,
   refreshSession,
+  requireRecentAuth,
+  revokeOtherSessions,
+  revokeSession,
   saveSession,
   signOut,
   switchToOrganization,
   validateApiKey,
   withAuth,
+  withPrincipal,
 };
@@ -1,6 +1,8 @@
-import type { AuthenticationResponse, OauthTokens, User, WorkOS } from '@workos-inc/node';
-import { type NextRequest } from 'next/server';
+import type { AuthenticationResponse, OauthTokens, Session as WorkOSSession, User, WorkOS } from '@workos-inc/node';
+import type { JSONWebKeySet, JWTVerifyGetKey } from 'jose';
+import { type NextFetchEvent, type NextRequest } from 'next/server';
 import * as v from 'valibot';
+import type { CallbackErrorCode, SessionDecryptionError } from './errors.js';
 
 /**
  * The options object accepted by the installed SDK's `getAuthorizationUrl`.
@@ -17,6 +19,11 @@ type SdkAuthorizationUrlOptions = Parameters<WorkOS['userManagement']['getAuthor
 export interface HandleAuthOptions {
   returnPathname?: string;
   baseURL?: string;
+  /**
+   * Picks the configuration for the callback from the request host. Must
+   * return the same configuration the proxy/middleware used for that host.
+   */
+  resolveConfig?: AuthKitConfigResolver;
   onSuccess?: (data: HandleAuthSuccessData) => void | Promise<void>;
   onError?: (params: { error?: unknown; request: NextRequest }) => Response | Promise<Response>;
 }
@@ -38,6 +45,228 @@ export interface Session {
   user: User;
   impersonator?: Impersonator;
   authenticationMethod?: AuthenticationResponse['authenticationMethod'];
+  /** When the user signed in, in milliseconds since the epoch. Carried over when the session is refreshed. */
+  signedInAt?: number;
+  /** When the session was last used, in milliseconds since the epoch. */
+  lastActiveAt?: number;
+}
+
+/** Why a session was ended by the `maxSessionAgeSeconds` or `idleTimeoutSeconds` limits. */
+export type SessionExpiryReason = 'max_session_age' | 'idle_timeout';
+
+/**
+ * Storage backend for server-side sessions. When configured, the session cookie
+ * only carries a sealed, opaque session id and the session itself (tokens, user,
+ * impersonator) lives in the store.
+ *
+ * Implement this interface to back sessions with Redis, a KV store or a
+ * database. Methods may return synchronously or asynchronously.
+ */
+export interface SessionStore {
+  /** Returns the session stored under `id`, or `null`/`undefined` if it does not exist or was revoked. */
+  get(id: string): Session | null | undefined | Promise<Session | null | undefined>;
+  /** Creates or replaces the session stored under `id`. */
+  set(id: string, session: Session): void | Promise<void>;
+  /** Removes the session stored under `id`, revoking it on the next request. */
+  delete(id: string): void | Promise<void>;
+  /** Records activity for the session stored under `id`, e.g. to extend a sliding expiry. */
+  touch(id: string): void | Promise<void>;
+}
+
+/** The tokens and user returned by a refresh, as shared between concurrent refreshes. */
+export type RefreshResult = Pick<
+  AuthenticationResponse,
+  'accessToken' | 'refreshToken' | 'user' | 'impersonator' | 'authenticationMethod' | 'organizationId'
+>;
+
+/**
+ * Short-lived cache of recent refresh results, keyed by a hash of the refresh
+ * token that was rotated. Requests that arrive with a refresh token that was
+ * rotated moments ago (e.g. parallel requests carrying the same stale cookie)
+ * receive the cached result instead of failing with `invalid_grant`.
+ *
+ * Implement this interface on top of a shared store (Redis, KV) to share
+ * refresh results between instances. Entries should expire after a few
+ * seconds. Methods may return synchronously or asynchronously.
+ */
+export interface RefreshCache {
+  /** Returns the result cached under `key`, or `null`/`undefined` if there is none. */
+  get(key: string): RefreshResult | null | undefined | Promise<RefreshResult | null | undefined>;
+  /** Caches the result of rotating the refresh token hashed into `key`. */
+  set(key: string, result: RefreshResult): void | Promise<void>;
+}
+
+/** Structured fields attached to a log entry, e.g. `userId`, `sessionId`, `path` or `reason`. */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the log output of AuthKit. Token and cookie values are redacted
+ * from messages and fields before they reach the logger, and errors are
+ * passed as plain `{ name, message, stack }` objects.
+ */
+export interface AuthKitLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/** Payloads of the events emitted over the course of a session, keyed by event type. */
+export interface AuthKitEventMap {
+  /** A user signed in through the callback route. */
+  sign_in: {
+    user: User;
+    organizationId?: string;
+    authenticationMethod?: AuthenticationResponse['authenticationMethod'];
+  };
+  /** A user whose account was created during the sign-in flow signed in for the first time. */
+  sign_up: {
+    user: User;
+    organizationId?: string;
+    authenticationMethod?: AuthenticationResponse['authenticationMethod'];
+  };
+  /** A session started through the callback route is an impersonation. */
+  impersonation_started: { user: User; impersonator: Impersonator; organizationId?: string };
+  /** A user signed out with `signOut`. */
+  sign_out: { userId: string; sessionId: string };
+  /** A session was refreshed, by the proxy/middleware or with `refreshSession`. */
+  session_refreshed: { user: User; sessionId: string; organizationId?: string; proactive: boolean };
+  /** Refreshing a session failed. A transient failure keeps the session so it can be retried. */
+  refresh_failed: { userId: string; sessionId?: string; error: unknown; isTransient: boolean };
+  /** A session moved to another organization, with `switchToOrganization` or `refreshSession`. */
+  organization_switched: {
+    userId: string;
+    sessionId: string;
+    organizationId?: string;
+    previousOrganizationId?: string;
+  };
+  /** A session cookie was rejected and deleted. */
+  session_invalid: {
+    reason: 'decryption_failed' | 'session_not_found' | SessionExpiryReason | 'invalid_issuer' | 'invalid_audience';
+    userId?: string;
+  };
+  /** The callback route failed to sign a user in. `code` is set for failures raised by AuthKit itself. */
+  callback_failed: { code?: CallbackErrorCode; error: unknown; path: string };
+}
+
+export type AuthKitEventType = keyof AuthKitEventMap;
+
+export type AuthKitEvent = { [K in AuthKitEventType]: { type: K } & AuthKitEventMap[K] }[AuthKitEventType];
+
+export type AuthKitEventListener<K extends AuthKitEventType = AuthKitEventType> = (
+  event: Extract<AuthKitEvent, { type: K }>,
+) => void | Promise<void>;
+
+/**
+ * Delivers AuthKit events to their subscribers. Create one with
+ * `createAuthKitEvents` and pass it to `configureAuthKit`.
+ */
+export interface AuthKitEvents {
+  /**
+   * Subscribes to an event type, or to every event with `'*'`.
+   * @returns A function that removes the subscription.
+   */
+  on<K extends AuthKitEventType>(type: K, listener: AuthKitEventListener<K>): () => void;
+  on(type: '*', listener: AuthKitEventListener): () => void;
+  /** Calls the subscribers of `event`. Subscribers that throw are logged and don't affect the others. */
+  emit(event: AuthKitEvent): Promise<void>;
+}
+
+export interface AuthKitConfig {
+  /** The WorkOS client id. Defaults to `WORKOS_CLIENT_ID`. */
+  clientId?: string;
+  /** The WorkOS API key. Defaults to `WORKOS_API_KEY`. */
+  apiKey?: string;
+  /** The default redirect URI for the callback route. Defaults to `NEXT_PUBLIC_WORKOS_REDIRECT_URI`. */
+  redirectUri?: string;
+  /** The password used to seal cookies, at least 32 characters long. Defaults to `WORKOS_COOKIE_PASSWORD`. */
+  cookiePassword?: string;
+  /** Name of the session cookie. Defaults to `WORKOS_COOKIE_NAME`, or `'wos-session'`. */
+  cookieName?: string;
+  /** Domain for the session cookie. Defaults to `WORKOS_COOKIE_DOMAIN`. */
+  cookieDomain?: string;
+  /** Maximum age of the session cookie in seconds. Defaults to `WORKOS_COOKIE_MAX_AGE`, or 400 days. */
+  cookieMaxAge?: number;
+  /** SameSite attribute for cookies. Defaults to `WORKOS_COOKIE_SAMESITE`, or `'lax'`. */
+  cookieSameSite?: 'lax' | 'strict' | 'none';
+  /** Hostname of the WorkOS API. Defaults to `WORKOS_API_HOSTNAME`, or `'api.workos.com'`. */
+  apiHostname?: string;
+  /** Whether to use HTTPS in API calls. Defaults to `WORKOS_API_HTTPS`, or `true`. */
+  apiHttps?: boolean;
+  /** Port to use for API calls. Defaults to `WORKOS_API_PORT`. */
+  apiPort?: number;
+  /**
+   * Keep sessions server-side instead of sealing them into the session cookie.
+   * The cookie then only holds a sealed session id, which allows sessions to be
+   * revoked server-side and keeps refresh tokens out of the browser.
+   */
+  sessionStore?: SessionStore;
+  /**
+   * Versioned passwords used to seal and unseal cookies, keyed by a numeric id,
+   * e.g. `{ 1: 'old-password', 2: 'new-password' }`. Cookies sealed with any of
+   * the listed passwords are accepted, and new cookies are always sealed with the
+   * password with the highest id. Takes precedence over `cookiePassword`,
+   * `WORKOS_COOKIE_PASSWORDS` and `WORKOS_COOKIE_PASSWORD`.
+   */
+  cookiePasswords?: Record<string, string>;
+  /**
+   * Cache of recent refresh results shared by requests that refresh the same
+   * session at the same time. Defaults to an in-memory cache that keeps results
+   * for 10 seconds; set to `false` to disable it.
+   */
+  refreshCache?: RefreshCache | false;
+  /**
+   * Where AuthKit writes its logs. Defaults to the console; set to `false` to
+   * silence them. Debug entries are only written when the `debug` option is
+   * enabled.
+   */
+  logger?: AuthKitLogger | false;
+  /** Receives the sign-in, sign-out and session events of AuthKit. */
+  events?: AuthKitEvents;
+  /**
+   * Where users may be sent after signing in, signing out or switching
+   * organizations. Paths on the app are always allowed unless
+   * `allowedPathPrefixes` is set.
+   */
+  redirects?: RedirectPolicy;
+}
+
+/**
+ * Restricts the `returnTo` targets AuthKit redirects to. Targets that don't
+ * pass are replaced with `fallback`, and a warning is logged.
+ */
+export interface RedirectPolicy {
+  /**
+   * Origins other than the app's own that may be redirected to, e.g.
+   * `['https://docs.example.com']`.
+   */
+  allowedOrigins?: string[];
+  /** Paths a target must start with, e.g. `['/app', '/settings']`. */
+  allowedPathPrefixes?: string[];
+  /** Where to redirect instead of an unsafe target. Defaults to `'/'`. */
+  fallback?: string;
+}
+
+/**
+ * Picks the configuration to use for a request from the host it was made to,
+ * e.g. to serve several brands, each with its own WorkOS environment, from a
+ * single deployment.
+ */
+export type AuthKitConfigResolver = (host: string) => AuthKitConfig | Promise<AuthKitConfig>;
+
+export interface WithAuthOptions {
+  ensureSignedIn?: boolean;
+  /**
+   * Picks the configuration from the host the proxy/middleware recorded for
+   * the request. Pass the same resolver as to `authkitProxy`.
+   */
+  resolveConfig?: AuthKitConfigResolver;
+  /**
+   * Also accept requests the proxy/middleware authenticated with a bearer
+   * access token (see `bearerAuth`). Without it, those requests are treated
+   * as signed out.
+   */
+  allowBearer?: boolean;
 }
 
 export interface UserInfo {
@@ -51,6 +280,12 @@ export interface UserInfo {
   featureFlags?: string[];
   impersonator?: Impersonator;
   accessToken: string;
+  /**
+   * `true` when the access token has expired and the session is served as it
+   * was last known because refreshing it failed (see `maxStaleSeconds`). The
+   * access token will be rejected by APIs that verify it.
+   */
+  stale?: boolean;
 }
 export interface NoUserInfo {
   user: null;
@@ -63,6 +298,60 @@ export interface NoUserInfo {
   featureFlags?: undefined;
   impersonator?: undefined;
   accessToken?: undefined;
+  stale?: undefined;
+}
+
+/**
+ * Returned for requests authenticated with an `Authorization: Bearer` access
+ * token instead of a session cookie. Only the claims of the token are known,
+ * so `user` only holds the user id.
+ */
+export interface BearerUserInfo extends Omit<UserInfo, 'user' | 'impersonator'> {
+  user: Pick<User, 'id'>;
+  authenticatedWith: 'bearer';
+}
+
+/**
+ * A request authenticated with a signed-in user, as returned by `withPrincipal`.
+ */
+export interface UserPrincipal {
+  type: 'user';
+  session: UserInfo | BearerUserInfo;
+}
+
+/**
+ * A request authenticated with a WorkOS API key, as returned by `withPrincipal`.
+ */
+export interface ApiKeyPrincipal {
+  type: 'api_key';
+  apiKeyId: string;
+  name: string;
+  /** The organization that owns the API key. */
+  organizationId: string;
+  permissions: string[];
+}
+
+export type Principal = UserPrincipal | ApiKeyPrincipal;
+
+export interface ApiKeyAuthOptions {
+  /**
+   * Paths that accept a WorkOS API key sent as `Authorization: Bearer <key>`,
+   * using the same syntax as `unauthenticatedPaths`.
+   */
+  paths: PathMatcher[];
+  /**
+   * Number of seconds a validation result is reused for the same key.
+   * Defaults to 60 seconds. Set to `0` to validate every request with WorkOS.
+   */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * A session of the signed-in user, as returned by `listSessions`.
+ */
+export interface UserSession extends WorkOSSession {
+  /** Whether this is the session the current request is signed in with. */
+  current: boolean;
 }
 
 export interface AccessToken {
@@ -86,10 +375,33 @@ export const StateSchema = v.object({
   customState: v.optional(v.string()),
   returnPathname: v.optional(v.string()),
   codeVerifier: v.string(),
+  // When the flow started, in milliseconds since the epoch
+  startedAt: v.optional(v.number()),
 });
 
 export type State = v.InferOutput<typeof StateSchema>;
 
+/**
+ * The shape of a session as it is sealed into the session cookie (or written
+ * to the session store), tagged with the payload version `v`. Payloads sealed
+ * by older versions of this library are upgraded to the current version before
+ * they are validated against this schema.
+ */
+export const SessionPayloadSchema = v.object({
+  v: v.literal(1),
+  accessToken: v.string(),
+  refreshToken: v.string(),
+  user: v.custom<User>((input) => v.is(v.looseObject({ id: v.string() }), input)),
+  impersonator: v.optional(v.object({ email: v.string(), reason: v.nullable(v.string()) })),
+  authenticationMethod: v.optional(
+    v.custom<AuthenticationResponse['authenticationMethod']>((input) => typeof input === 'string'),
+  ),
+  signedInAt: v.optional(v.number()),
+  lastActiveAt: v.optional(v.number()),
+});
+
+export type SessionPayload = v.InferOutput<typeof SessionPayloadSchema>;
+
 export interface GetAuthURLResult {
   url: string;
   sealedState: string;
@@ -112,16 +424,128 @@ export interface GetAuthURLOptions {
   maxAge?: 'maxAge' extends keyof SdkAuthorizationUrlOptions ? number : never;
 }
 
+/**
+ * Matches requests by path: a path pattern using the Next.js matcher syntax
+ * (e.g. `'/admin/:path*'`), a regular expression tested against the pathname,
+ * or a predicate called with the request, e.g. to also match on the method.
+ */
+export type PathMatcher = string | RegExp | ((request: NextRequest) => boolean);
+
+/**
+ * Requires signed-in users to have certain permissions, roles or entitlements
+ * to access the paths it matches. Requests from signed-out users are
+ * redirected to sign in.
+ */
+export interface AuthkitAccessRule {
+  /** Paths the rule applies to, using the same syntax as `unauthenticatedPaths`. */
+  matcher: PathMatcher | PathMatcher[];
+  /** Permissions the user must all have. */
+  permissions?: string[];
+  /** Roles the user must have at least one of. */
+  roles?: string[];
+  /** Entitlements the user must all have. */
+  entitlements?: string[];
+  /**
+   * Maximum number of seconds since the user last authenticated. Older
+   * sessions are sent through re-authentication with OIDC `max_age`, and
+   * brought back to the requested page afterwards. API keys never pass.
+   */
+  maxAge?: number;
+}
+
 export interface AuthkitMiddlewareAuth {
   enabled: boolean;
-  unauthenticatedPaths: string[];
+  unauthenticatedPaths: PathMatcher[];
+  /** Access rules checked against the claims of the access token. All rules matching a path must pass. */
+  rules?: AuthkitAccessRule[];
+  /**
+   * Path to rewrite requests that fail an access rule to, e.g. `'/forbidden'`.
+   * Defaults to responding with a plain 403.
+   */
+  forbiddenPath?: string;
+  /** Builds the response for requests that fail an access rule. Takes precedence over `forbiddenPath`. */
+  onForbidden?: (params: { request: NextRequest; rule: AuthkitAccessRule }) => Response | Promise<Response>;
+  /**
+   * Paths whose signed-out requests are answered with a `401` and a JSON error
+   * body instead of a redirect to sign in, e.g. `['/api/:path*']`.
+   */
+  apiPaths?: PathMatcher[];
+  /**
+   * How signed-out requests to protected paths are answered. `'redirect'`
+   * (the default) redirects them to sign in. `'auto'` answers requests that
+   * aren't page loads (e.g. `fetch` calls) with a `401`, like `apiPaths`.
+   */
+  unauthenticatedResponse?: 'redirect' | 'auto';
 }
 
-export interface AuthkitMiddlewareOptions {
+export interface RemoteJwksOptions {
+  /** URL of the key set. Defaults to the JWKS URL of the configured WorkOS client. */
+  url?: string | URL;
+  /** Minimum number of seconds between fetches when a token is signed with an unknown key. Defaults to 30 seconds. */
+  cooldownSeconds?: number;
+  /** Maximum number of seconds keys are used before they are fetched again. Defaults to 10 minutes. */
+  cacheMaxAgeSeconds?: number;
+}
+
+/**
+ * Where the keys used to verify access tokens come from: a static JSON Web Key
+ * Set, a function that resolves the key for a token, or a remote key set.
+ */
+export type JwksSource = JSONWebKeySet | JWTVerifyGetKey | RemoteJwksOptions;
+
+/** Why the proxy/middleware rejected an access token. */
+export type AccessTokenValidationFailure =
+  | 'expired'
+  | 'invalid_signature'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'invalid_token';
+
+export interface AccessTokenValidationOptions {
+  /**
+   * Accepted values of the `iss` claim. Defaults to any issuer on the WorkOS
+   * API host (`apiHostname`). Set to `false` to skip the check.
+   */
+  issuer?: string | string[] | false;
+  /**
+   * Client ids the token must have been issued for, matched against the `aud`
+   * or `client_id` claim, or the client id in the issuer. Defaults to the
+   * configured client id. Set to `false` to skip the check.
+   */
+  audience?: string | string[] | false;
+  /** Number of seconds of clock skew allowed when checking `exp`, `nbf` and `iat`. Defaults to 5 seconds. */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * The session AuthKit resolves for a request. Requests authenticated with a
+ * bearer access token are only possible with `bearerAuth: true`.
+ */
+export type AuthkitSession<TBearerAuth extends boolean = false> = true extends TBearerAuth
+  ? UserInfo | BearerUserInfo | NoUserInfo
+  : UserInfo | NoUserInfo;
+
+export interface AuthkitProxyHandlerContext<TSession = AuthkitSession> {
+  /** The session resolved by AuthKit, after any refresh. */
+  session: TSession;
+  event: NextFetchEvent;
+}
+
+/**
+ * Custom proxy/middleware logic run by `authkitProxy` once the session is
+ * resolved. Return a response to use it instead of continuing the request;
+ * AuthKit's cookies and request headers are merged into it.
+ */
+export type AuthkitProxyHandler<TSession = AuthkitSession> = (
+  request: NextRequest,
+  context: AuthkitProxyHandlerContext<TSession>,
+) => Response | void | Promise<Response | void>;
+
+export interface AuthkitMiddlewareOptions<TBearerAuth extends boolean = false> {
   debug?: boolean;
   middlewareAuth?: AuthkitMiddlewareAuth;
   redirectUri?: string;
-  signUpPaths?: string[];
+  signUpPaths?: PathMatcher[];
   eagerAuth?: boolean;
   /**
    * Number of seconds before access token expiry at which the proxy/middleware
@@ -133,9 +557,73 @@ export interface AuthkitMiddlewareOptions {
    * to disable proactive refresh and only refresh once the token has expired.
    */
   refreshBufferSeconds?: number;
+  /**
+   * Number of seconds after its access token expires during which a session is
+   * still served when refreshing it fails transiently, such as during a WorkOS
+   * or network outage. Such sessions carry the identity they last had and are
+   * flagged with `stale: true`. Defaults to `0`, which signs the user out.
+   */
+  maxStaleSeconds?: number;
+  /**
+   * Picks the configuration for each request from its host. The host is
+   * forwarded to server components, so `withAuth({ resolveConfig })` resolves
+   * the same configuration.
+   */
+  resolveConfig?: AuthKitConfigResolver;
+  /**
+   * Maximum age of a session in seconds, counted from when the user signed in.
+   * Older sessions are ended even if their refresh token is still valid.
+   */
+  maxSessionAgeSeconds?: number;
+  /**
+   * Number of seconds without a request after which a session is ended.
+   * Activity is recorded at most once a minute.
+   */
+  idleTimeoutSeconds?: number;
+  /** Called when a session is ended by `maxSessionAgeSeconds` or `idleTimeoutSeconds`. */
+  onSessionExpired?: (params: { reason: SessionExpiryReason; request: NextRequest }) => void | Promise<void>;
+  /**
+   * Called when the session cookie can't be unsealed (tampered with, truncated,
+   * or sealed with a cookie password that is no longer configured). The request
+   * is treated as signed out and the cookie is deleted.
+   */
+  onInvalidSession?: (params: { error: SessionDecryptionError; request: NextRequest }) => void | Promise<void>;
+  /**
+   * Source of the keys used to verify access tokens. Defaults to fetching the
+   * key set of the configured client from WorkOS.
+   */
+  jwks?: JwksSource;
+  /**
+   * How access tokens are validated. By default tokens must be issued by the
+   * WorkOS API for the configured client, allowing 5 seconds of clock skew.
+   */
+  accessTokenValidation?: AccessTokenValidationOptions;
+  /**
+   * Accept an access token sent as `Authorization: Bearer <token>` from
+   * clients without a session cookie, such as mobile apps and CLIs. The token
+   * is verified like the one in the session cookie.
+   */
+  bearerAuth?: TBearerAuth;
+  /**
+   * Accept WorkOS API keys on some paths. Requests with a valid key are let
+   * through protected paths, and `withPrincipal` returns the key.
+   */
+  apiKeyAuth?: ApiKeyAuthOptions;
+  /**
+   * Your own proxy/middleware logic, such as rewrites or extra headers. Runs
+   * for requests that pass the `middlewareAuth` checks; signed-out requests to
+   * protected paths are still redirected to sign in without calling it.
+   */
+  handler?: AuthkitProxyHandler<AuthkitSession<TBearerAuth>>;
+  /**
+   * Locales your app prefixes its paths with, e.g. `['en', 'de']`. A leading
+   * locale segment is stripped from pathnames before they are matched, so
+   * `'/dashboard'` also matches `/de/dashboard`.
+   */
+  locales?: string[];
 }
 
-export interface AuthkitOptions {
+export interface AuthkitOptions<TBearerAuth extends boolean = false> {
   eagerAuth?: boolean;
   debug?: boolean;
   redirectUri?: string;
@@ -146,6 +634,25 @@ export interface AuthkitOptions {
    * a total lifetime of 5 minutes or less). Set to `0` to disable.
    */
   refreshBufferSeconds?: number;
+  /**
+   * Number of seconds after its access token expires during which a session is
+   * still served when refreshing it fails transiently, such as during a WorkOS
+   * or network outage. Such sessions carry the identity they last had and are
+   * flagged with `stale: true`. Defaults to `0`, which signs the user out.
+   */
+  maxStaleSeconds?: number;
+  /**
+   * Maximum age of a session in seconds, counted from when the user signed in.
+   * Older sessions are ended even if their refresh token is still valid.
+   */
+  maxSessionAgeSeconds?: number;
+  /**
+   * Number of seconds without a request after which a session is ended.
+   * Activity is recorded at most once a minute.
+   */
+  idleTimeoutSeconds?: number;
+  /** Called when a session is ended by `maxSessionAgeSeconds` or `idleTimeoutSeconds`. */
+  onSessionExpired?: (params: { reason: SessionExpiryReason; request: NextRequest }) => void | Promise<void>;
   onSessionRefreshSuccess?: (data: {
     accessToken: string;
     user: User;
@@ -162,10 +669,32 @@ export interface AuthkitOptions {
      */
     isTransient: boolean;
   }) => void | Promise<void>;
+  /**
+   * Called when the session cookie can't be unsealed (tampered with, truncated,
+   * or sealed with a cookie password that is no longer configured). The request
+   * is treated as signed out and the cookie is deleted.
+   */
+  onInvalidSession?: (params: { error: SessionDecryptionError; request: NextRequest }) => void | Promise<void>;
+  /**
+   * Source of the keys used to verify access tokens. Defaults to fetching the
+   * key set of the configured client from WorkOS.
+   */
+  jwks?: JwksSource;
+  /**
+   * How access tokens are validated. By default tokens must be issued by the
+   * WorkOS API for the configured client, allowing 5 seconds of clock skew.
+   */
+  accessTokenValidation?: AccessTokenValidationOptions;
+  /**
+   * Accept an access token sent as `Authorization: Bearer <token>` from
+   * clients without a session cookie. The token is verified like the one in
+   * the session cookie.
+   */
+  bearerAuth?: TBearerAuth;
 }
 
-export interface AuthkitResponse {
-  session: UserInfo | NoUserInfo;
+export interface AuthkitResponse<TSession = AuthkitSession> {
+  session: TSession;
   headers: Headers;
   authorizationUrl?: string;
 }
@@ -0,0 +1,59 @@
+import { SignJWT, createRemoteJWKSet, exportJWK, generateKeyPair, jwtVerify } from 'jose';
+import { getJWKS } from './jwks.js';
+import { getWorkOS } from './workos.js';
+
+vi.mock('jose', async () => {
+  const actual = await vi.importActual<typeof import('jose')>('jose');
+  return {
+    ...actual,
+    createRemoteJWKSet: vi.fn(actual.createRemoteJWKSet),
+  };
+});
+
+describe('jwks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('verifies tokens against a static key set', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('RS256');
+    const jwks = { keys: [{ ...(await exportJWK(publicKey)), kid: 'key_1', alg: 'RS256' }] };
+    const token = await new SignJWT({ sid: 'session_123' })
+      .setProtectedHeader({ alg: 'RS256', kid: 'key_1' })
+      .setExpirationTime('2h')
+      .sign(privateKey);
+
+    const { payload } = await jwtVerify(token, getJWKS(jwks));
+
+    expect(payload.sid).toBe('session_123');
+    expect(getJWKS(jwks)).toBe(getJWKS(jwks));
+    expect(createRemoteJWKSet).not.toHaveBeenCalled();
+  });
+
+  it('uses a key resolver as is', () => {
+    const resolver = vi.fn();
+
+    expect(getJWKS(resolver)).toBe(resolver);
+  });
+
+  it('defaults to the remote key set of the configured client', () => {
+    const jwks = getJWKS();
+
+    expect(createRemoteJWKSet).toHaveBeenCalledWith(
+      new URL(getWorkOS().userManagement.getJwksUrl(process.env.WORKOS_CLIENT_ID as string)),
+      { cooldownDuration: undefined, cacheMaxAge: undefined },
+    );
+    expect(getJWKS()).toBe(jwks);
+  });
+
+  it('creates a remote key set with the given URL and cache settings', () => {
+    const jwks = getJWKS({ url: 'https://auth.example.com/jwks', cooldownSeconds: 5, cacheMaxAgeSeconds: 3600 });
+
+    expect(createRemoteJWKSet).toHaveBeenCalledWith(new URL('https://auth.example.com/jwks'), {
+      cooldownDuration: 5000,
+      cacheMaxAge: 3_600_000,
+    });
+    expect(getJWKS({ url: 'https://auth.example.com/jwks', cooldownSeconds: 5, cacheMaxAgeSeconds: 3600 })).toBe(jwks);
+    expect(getJWKS({ url: 'https://auth.example.com/jwks' })).not.toBe(jwks);
+  });
+});
@@ -0,0 +1,54 @@
+import { createLocalJWKSet, createRemoteJWKSet, type JSONWebKeySet, type JWTVerifyGetKey } from 'jose';
+import { getConfig } from './config.js';
+import type { JwksSource, RemoteJwksOptions } from './interfaces.js';
+import { withSpan } from './tracing.js';
+import { getWorkOS } from './workos.js';
+
+const remoteJwks = new Map<string, JWTVerifyGetKey>();
+const localJwks = new WeakMap<JSONWebKeySet, JWTVerifyGetKey>();
+
+function isKeySet(source: JwksSource): source is JSONWebKeySet {
+  return 'keys' in source && Array.isArray(source.keys);
+}
+
+function getRemoteJWKS({ url, cooldownSeconds, cacheMaxAgeSeconds }: RemoteJwksOptions): JWTVerifyGetKey {
+  const jwksUrl = url?.toString() ?? getWorkOS().userManagement.getJwksUrl(getConfig().clientId);
+  const key = JSON.stringify([jwksUrl, cooldownSeconds, cacheMaxAgeSeconds]);
+
+  let jwks = remoteJwks.get(key);
+  if (!jwks) {
+    const remote = createRemoteJWKSet(new URL(jwksUrl), {
+      cooldownDuration: cooldownSeconds === undefined ? undefined : cooldownSeconds * 1000,
+      cacheMaxAge: cacheMaxAgeSeconds === undefined ? undefined : cacheMaxAgeSeconds * 1000,
+    });
+    // Keys are fetched on the first lookup and whenever the cache goes stale
+    jwks = (protectedHeader, token) =>
+      withSpan('authkit.jwks.get_key', { 'url.full': jwksUrl }, async () => remote(protectedHeader, token));
+    remoteJwks.set(key, jwks);
+  }
+
+  return jwks;
+}
+
+/**
+ * Returns the key set used to verify access tokens. Defaults to the remote key
+ * set of the configured client. Key sets are reused across requests, so remote
+ * keys are fetched and cached once.
+ */
+export function getJWKS(source: JwksSource = {}): JWTVerifyGetKey {
+  if (typeof source === 'function') {
+    return source;
+  }
+
+  if (isKeySet(source)) {
+    let jwks = localJwks.get(source);
+    if (!jwks) {
+      jwks = createLocalJWKSet(source);
+      localJwks.set(source, jwks);
+    }
+
+    return jwks;
+  }
+
+  return getRemoteJWKS(source);
+}
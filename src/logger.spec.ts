@@ -0,0 +1,105 @@
+import { configureAuthKit, runWithAuthKitConfig } from './config.js';
+import type { AuthKitLogger } from './interfaces.js';
+import { getLogger } from './logger.js';
+import { generateTestToken } from './test-helpers.js';
+
+describe('logger', () => {
+  function createTestLogger(): AuthKitLogger {
+    return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  }
+
+  it('writes to the console by default', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    getLogger().error('Something failed', { path: '/dashboard' });
+    getLogger().error('Something else failed');
+
+    expect(errorSpy).toHaveBeenCalledWith('Something failed', { path: '/dashboard' });
+    expect(errorSpy).toHaveBeenCalledWith('Something else failed');
+  });
+
+  it('drops debug entries unless debug is enabled', () => {
+    const logger = createTestLogger();
+
+    runWithAuthKitConfig({ logger }, () => {
+      getLogger().debug('Hidden');
+      getLogger(true).debug('Shown', { userId: 'user_123' });
+    });
+
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.debug).toHaveBeenCalledWith('Shown', { userId: 'user_123' });
+  });
+
+  it('writes nothing when the logger is disabled', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    runWithAuthKitConfig({ logger: false }, () => {
+      getLogger(true).debug('Hidden');
+      getLogger().error('Hidden');
+    });
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  it('uses the logger set with configureAuthKit', () => {
+    const logger = createTestLogger();
+    configureAuthKit({ logger });
+
+    try {
+      getLogger().warn('Careful', { reason: 'rate_limited' });
+    } finally {
+      configureAuthKit({ logger: undefined });
+    }
+
+    expect(logger.warn).toHaveBeenCalledWith('Careful', { reason: 'rate_limited' });
+  });
+
+  it('redacts credential fields and drops undefined ones', () => {
+    const logger = createTestLogger();
+
+    runWithAuthKitConfig({ logger }, () =>
+      getLogger().info('Signed in', {
+        userId: 'user_123',
+        accessToken: 'at_123',
+        refreshToken: 'rt_123',
+        cookie: 'wos-session=abc',
+        code: 'code_123',
+        nested: { password: 'hunter2', sessionId: 'session_123' },
+        organizationId: undefined,
+      }),
+    );
+
+    expect(logger.info).toHaveBeenCalledWith('Signed in', {
+      userId: 'user_123',
+      accessToken: '[REDACTED]',
+      refreshToken: '[REDACTED]',
+      cookie: '[REDACTED]',
+      code: '[REDACTED]',
+      nested: { password: '[REDACTED]', sessionId: 'session_123' },
+    });
+  });
+
+  it('redacts tokens and sealed cookies embedded in messages and values', async () => {
+    const logger = createTestLogger();
+    const token = await generateTestToken();
+
+    runWithAuthKitConfig({ logger }, () =>
+      getLogger().info(`Received ${token}`, { detail: `seal Fe26.2**abc*def, token ${token}` }),
+    );
+
+    expect(logger.info).toHaveBeenCalledWith('Received [REDACTED]', { detail: 'seal [REDACTED], token [REDACTED]' });
+  });
+
+  it('passes errors as plain objects', () => {
+    const logger = createTestLogger();
+    const error = Object.assign(new Error('Too many requests'), { status: 429 });
+
+    runWithAuthKitConfig({ logger }, () => getLogger().error('Refresh failed', { error }));
+
+    expect(logger.error).toHaveBeenCalledWith('Refresh failed', {
+      error: { name: 'Error', message: 'Too many requests', status: 429, stack: expect.any(String) },
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { getAuthKitConfig } from './config.js';
+import type { AuthKitLogger, LogFields } from './interfaces.js';
+
+const REDACTED = '[REDACTED]';
+
+// Fields holding credentials, whatever their value looks like
+const SENSITIVE_FIELD_PATTERN = /token|cookie|password|secret|authorization|verifier|sealed|^code$|^apiKey$/i;
+
+// JWTs (access tokens, ID tokens) and iron-session seals embedded in free text
+const SECRET_VALUE_PATTERN = /eyJ[\w-]*\.[\w-]*\.[\w-]*|Fe26\.2\*[^\s"',]+/g;
+
+const MAX_DEPTH = 5;
+
+const consoleLogger: AuthKitLogger = {
+  debug: (message, fields) => (fields ? console.log(message, fields) : console.log(message)),
+  info: (message, fields) => (fields ? console.info(message, fields) : console.info(message)),
+  warn: (message, fields) => (fields ? console.warn(message, fields) : console.warn(message)),
+  error: (message, fields) => (fields ? console.error(message, fields) : console.error(message)),
+};
+
+function noop() {}
+
+function redactString(value: string): string {
+  return value.replace(SECRET_VALUE_PATTERN, REDACTED);
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    const { code, status } = value as Error & { code?: unknown; status?: unknown };
+
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(code !== undefined && { code }),
+      ...(status !== undefined && { status }),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+
+  return redactFields(value as LogFields, depth + 1);
+}
+
+function redactFields(fields: LogFields, depth = 0): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : redactValue(value, depth)]),
+  );
+}
+
+/**
+ * Returns the configured logger, wrapped so token and cookie values never
+ * reach it. Debug entries are dropped unless `debug` is `true`.
+ */
+export function getLogger(debug = false): AuthKitLogger {
+  const { logger = consoleLogger } = getAuthKitConfig();
+
+  if (!logger) {
+    return { debug: noop, info: noop, warn: noop, error: noop };
+  }
+
+  const write =
+    (level: keyof AuthKitLogger) =>
+    (message: string, fields?: LogFields): void => {
+      const redacted = fields && redactFields(fields);
+      logger[level](redactString(message), redacted && Object.keys(redacted).length > 0 ? redacted : undefined);
+    };
+
+  return {
+    debug: debug ? write('debug') : noop,
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
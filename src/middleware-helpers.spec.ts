@@ -5,6 +5,7 @@ import {
   partitionAuthkitHeaders,
   applyResponseHeaders,
   isAuthkitRequestHeader,
+  mergeAuthkitHeaders,
   AUTHKIT_REQUEST_HEADERS,
 } from './middleware-helpers.js';
 import { appendPKCESetCookieHeader, setPendingPKCERedirectHeaders } from './pkce.js';
@@ -267,6 +268,63 @@ describe('middleware-helpers', () => {
     });
   });
 
+  describe('mergeAuthkitHeaders', () => {
+    it('should forward the AuthKit request headers with the original request headers', () => {
+      const request = new NextRequest('https://example.com/test', {
+        headers: { 'accept-language': 'fr', 'x-workos-session': 'forged' },
+      });
+
+      const response = mergeAuthkitHeaders(request, NextResponse.next(), createAuthkitHeaders());
+
+      expect(response.headers.get('x-middleware-request-x-workos-session')).toBe('encrypted-session-data');
+      expect(response.headers.get('x-middleware-request-accept-language')).toBe('fr');
+      expect(response.headers.get('x-middleware-override-headers')!.split(',')).toEqual(
+        expect.arrayContaining(['accept-language', 'x-workos-session', 'x-workos-middleware', 'x-url']),
+      );
+      expect(response.headers.getSetCookie()).toEqual(['wos-session=abc123; Path=/; HttpOnly']);
+      expect(response.headers.get('x-workos-session')).toBeNull();
+    });
+
+    it('should keep the request headers the response already overrides', () => {
+      const request = new NextRequest('https://example.com/test', { headers: { 'accept-language': 'fr' } });
+      const requestHeaders = new Headers({ 'x-locale': 'de', 'x-workos-session': 'forged' });
+      const rewrite = NextResponse.rewrite(new URL('/de/test', request.url), { request: { headers: requestHeaders } });
+
+      const response = mergeAuthkitHeaders(request, rewrite, createAuthkitHeaders());
+      const overridden = response.headers.get('x-middleware-override-headers')!.split(',');
+
+      expect(response.headers.get('x-middleware-rewrite')).toBe('https://example.com/de/test');
+      expect(response.headers.get('x-middleware-request-x-locale')).toBe('de');
+      expect(response.headers.get('x-middleware-request-x-workos-session')).toBe('encrypted-session-data');
+      expect(overridden).not.toContain('accept-language');
+      expect(overridden).toContain('x-locale');
+    });
+
+    it('should accept responses with immutable headers', () => {
+      const response = mergeAuthkitHeaders(
+        createMockRequest(),
+        Response.redirect('https://example.com/fr/test', 307),
+        createAuthkitHeaders(),
+      );
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toBe('https://example.com/fr/test');
+      expect(response.headers.getSetCookie()).toEqual(['wos-session=abc123; Path=/; HttpOnly']);
+    });
+
+    it('should not set the PKCE cookie of a pending sign-in', async () => {
+      const request = createMockRequest();
+      const headers = createAuthkitHeaders();
+      setPendingPKCERedirectHeaders(headers, 'https://auth.example.com/authorize', 'sealed-state');
+      appendPKCESetCookieHeader(request, headers, 'sealed-state');
+
+      const response = mergeAuthkitHeaders(request, new Response('ok'), headers);
+
+      expect(response.headers.getSetCookie()).toEqual(['wos-session=abc123; Path=/; HttpOnly']);
+      expect(await response.text()).toBe('ok');
+    });
+  });
+
   describe('handleAuthkitHeaders (deprecated alias)', () => {
     it('should be the same function reference as handleAuthkitProxy', () => {
       expect(handleAuthkitHeaders).toBe(handleAuthkitProxy);
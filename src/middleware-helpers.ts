@@ -11,8 +11,11 @@ export const AUTHKIT_REQUEST_HEADERS = [
   'x-workos-middleware',
   'x-url',
   'x-redirect-uri',
-  'x-sign-up-paths',
+  'x-workos-screen-hint',
   'x-workos-session',
+  'x-workos-host',
+  'x-workos-bearer-token',
+  'x-workos-api-key',
 ] as const;
 
 export type AuthkitRequestHeader = (typeof AUTHKIT_REQUEST_HEADERS)[number];
@@ -58,7 +61,10 @@ export interface AuthkitHeadersResult {
 /**
  * Partitions AuthKit headers into request headers (for withAuth) and response headers (for browser).
  */
-export function partitionAuthkitHeaders(request: NextRequest, authkitHeaders: Headers): AuthkitHeadersResult {
+export function partitionAuthkitHeaders(
+  request: Pick<NextRequest, 'headers'>,
+  authkitHeaders: Headers,
+): AuthkitHeadersResult {
   const headers = new Headers(authkitHeaders);
   const requestHeaders = new Headers(request.headers);
 
@@ -151,5 +157,50 @@ export function handleAuthkitProxy(
   return applyResponseHeaders(NextResponse.next({ request: { headers: requestHeaders } }), responseHeaders);
 }
 
+// Headers Next.js uses to carry the request headers a proxy/middleware response overrides
+const OVERRIDE_HEADERS_HEADER = 'x-middleware-override-headers';
+const REQUEST_HEADER_PREFIX = 'x-middleware-request-';
+
+/**
+ * Merges AuthKit headers into a response built outside of AuthKit, such as the
+ * one returned by the `handler` of `authkitProxy`. The AuthKit request headers
+ * are forwarded to the page along with any request headers the response
+ * already overrides, and the AuthKit response headers are applied to it.
+ */
+export function mergeAuthkitHeaders(request: NextRequest, response: Response, authkitHeaders: Headers): NextResponse {
+  // `Response.redirect()` and friends have immutable headers
+  const merged = response instanceof NextResponse ? response : new NextResponse(response.body, response);
+
+  const overriddenNames = merged.headers
+    .get(OVERRIDE_HEADERS_HEADER)
+    ?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const baseHeaders = new Headers(overriddenNames ? undefined : request.headers);
+  for (const name of overriddenNames ?? []) {
+    const value = merged.headers.get(`${REQUEST_HEADER_PREFIX}${name}`);
+    if (value != null) {
+      baseHeaders.set(name, value);
+    }
+    merged.headers.delete(`${REQUEST_HEADER_PREFIX}${name}`);
+  }
+
+  // The response doesn't start a sign-in, so a pending PKCE cookie must not be set
+  const headers = new Headers(authkitHeaders);
+  if (headers.has(PKCE_AUTHORIZATION_URL_HEADER) && headers.has(PKCE_STATE_HEADER)) {
+    stripPKCESetCookieHeaders(headers);
+  }
+
+  const { requestHeaders, responseHeaders } = partitionAuthkitHeaders({ headers: baseHeaders }, headers);
+
+  for (const [name, value] of requestHeaders) {
+    merged.headers.set(`${REQUEST_HEADER_PREFIX}${name}`, value);
+  }
+  merged.headers.set(OVERRIDE_HEADERS_HEADER, Array.from(requestHeaders.keys()).join(','));
+
+  return applyResponseHeaders(merged, responseHeaders);
+}
+
 /** @deprecated Use `handleAuthkitProxy` instead. */
 export const handleAuthkitHeaders: typeof handleAuthkitProxy = handleAuthkitProxy;
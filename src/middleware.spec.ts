@@ -1,4 +1,7 @@
-import { authkitMiddleware, authkitProxy } from './middleware.js';
+import type { NextFetchEvent } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { BearerUserInfo, NoUserInfo, UserInfo } from './interfaces.js';
+import { authkit, authkitMiddleware, authkitProxy } from './middleware.js';
 
 describe('middleware', () => {
   describe('authkitProxy', () => {
@@ -18,6 +21,91 @@ describe('middleware', () => {
     });
   });
 
+  describe('resolveConfig', () => {
+    it('should handle the request with the configuration resolved from its host', async () => {
+      const resolveConfig = vi.fn(async () => ({
+        clientId: 'client_brand',
+        redirectUri: 'https://brand.example.com/callback',
+      }));
+      const middleware = authkitProxy({
+        middlewareAuth: { enabled: true, unauthenticatedPaths: [] },
+        resolveConfig,
+      });
+
+      const response = await middleware(
+        new NextRequest(new URL('https://brand.example.com/protected')),
+        {} as NextFetchEvent,
+      );
+      const location = new URL(response!.headers.get('location')!);
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(location.searchParams.get('client_id')).toBe('client_brand');
+      expect(location.searchParams.get('redirect_uri')).toBe('https://brand.example.com/callback');
+    });
+  });
+
+  describe('handler', () => {
+    it('should run the handler with the session and merge the AuthKit headers into its response', async () => {
+      const event = {} as NextFetchEvent;
+      const handler = vi.fn((request: NextRequest) => {
+        const url = request.nextUrl.clone();
+        url.pathname = `/en${url.pathname}`;
+        return NextResponse.rewrite(url);
+      });
+      const middleware = authkitProxy({ handler });
+
+      const response = await middleware(new NextRequest(new URL('https://example.com/about')), event);
+
+      expect(handler).toHaveBeenCalledWith(expect.any(NextRequest), { session: { user: null }, event });
+      expect(response!.headers.get('x-middleware-rewrite')).toBe('https://example.com/en/about');
+      expect(response!.headers.get('x-middleware-request-x-workos-middleware')).toBe('true');
+      expect(response!.headers.get('x-middleware-request-x-url')).toBe('https://example.com/about');
+    });
+
+    it('should continue the request when the handler returns nothing', async () => {
+      const middleware = authkitProxy({ handler: () => undefined });
+
+      const response = await middleware(new NextRequest(new URL('https://example.com/about')), {} as NextFetchEvent);
+
+      expect(response!.headers.get('x-middleware-next')).toBe('1');
+    });
+
+    it('should only pass bearer sessions to the handler with bearerAuth', () => {
+      authkitProxy({
+        handler: (_request, { session }) => {
+          expectTypeOf(session).toEqualTypeOf<UserInfo | NoUserInfo>();
+        },
+      });
+      authkitProxy({
+        bearerAuth: true,
+        handler: (_request, { session }) => {
+          expectTypeOf(session).toEqualTypeOf<UserInfo | BearerUserInfo | NoUserInfo>();
+        },
+      });
+    });
+
+    it('should not run the handler for signed-out requests to protected paths', async () => {
+      const handler = vi.fn();
+      const middleware = authkitProxy({ middlewareAuth: { enabled: true, unauthenticatedPaths: [] }, handler });
+
+      const response = await middleware(new NextRequest(new URL('https://example.com/app')), {} as NextFetchEvent);
+
+      expect(response!.status).toBe(307);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authkit', () => {
+    it('should only return bearer sessions with bearerAuth', () => {
+      expectTypeOf(authkit<false>)
+        .returns.resolves.toHaveProperty('session')
+        .toEqualTypeOf<UserInfo | NoUserInfo>();
+      expectTypeOf(authkit<true>)
+        .returns.resolves.toHaveProperty('session')
+        .toEqualTypeOf<UserInfo | BearerUserInfo | NoUserInfo>();
+    });
+  });
+
   describe('authkitMiddleware (deprecated alias)', () => {
     it('should be the same function reference as authkitProxy', () => {
       expect(authkitMiddleware).toBe(authkitProxy);
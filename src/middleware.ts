@@ -1,32 +1,70 @@
 import { NextMiddleware, NextRequest } from 'next/server';
 import { updateSessionMiddleware, updateSession } from './session.js';
-import { AuthkitMiddlewareOptions, AuthkitOptions, AuthkitResponse } from './interfaces.js';
-import { WORKOS_REDIRECT_URI } from './env-variables.js';
+import { AuthkitMiddlewareOptions, AuthkitOptions, AuthkitResponse, AuthkitSession } from './interfaces.js';
+import { getConfig, runWithAuthKitConfig } from './config.js';
+import { getRequestHost } from './utils.js';
 
-export function authkitProxy({
+export function authkitProxy<TBearerAuth extends boolean = false>({
   debug = false,
   middlewareAuth = { enabled: false, unauthenticatedPaths: [] },
-  redirectUri = WORKOS_REDIRECT_URI,
+  redirectUri,
   signUpPaths = [],
   eagerAuth = false,
   refreshBufferSeconds,
-}: AuthkitMiddlewareOptions = {}): NextMiddleware {
-  return function (request) {
-    return updateSessionMiddleware(
-      request,
-      debug,
-      middlewareAuth,
-      redirectUri,
-      signUpPaths,
-      eagerAuth,
-      refreshBufferSeconds,
-    );
+  maxStaleSeconds,
+  onInvalidSession,
+  resolveConfig,
+  maxSessionAgeSeconds,
+  idleTimeoutSeconds,
+  onSessionExpired,
+  jwks,
+  accessTokenValidation,
+  bearerAuth,
+  apiKeyAuth,
+  handler,
+  locales,
+}: AuthkitMiddlewareOptions<TBearerAuth> = {}): NextMiddleware {
+  return async function (request, event) {
+    const handleRequest = () =>
+      updateSessionMiddleware(
+        request,
+        debug,
+        middlewareAuth,
+        redirectUri ?? getConfig().redirectUri,
+        signUpPaths,
+        eagerAuth,
+        refreshBufferSeconds,
+        {
+          maxStaleSeconds,
+          onInvalidSession,
+          maxSessionAgeSeconds,
+          idleTimeoutSeconds,
+          onSessionExpired,
+          jwks,
+          accessTokenValidation,
+          bearerAuth,
+          apiKeyAuth,
+          handler:
+            handler && ((session) => handler(request, { session: session as AuthkitSession<TBearerAuth>, event })),
+          locales,
+        },
+      );
+
+    if (!resolveConfig) {
+      return handleRequest();
+    }
+
+    const config = await resolveConfig(getRequestHost(request));
+    return runWithAuthKitConfig(config, handleRequest);
   };
 }
 
 /** @deprecated Use `authkitProxy` instead. */
 export const authkitMiddleware: typeof authkitProxy = authkitProxy;
 
-export async function authkit(request: NextRequest, options: AuthkitOptions = {}): Promise<AuthkitResponse> {
-  return await updateSession(request, options);
+export async function authkit<TBearerAuth extends boolean = false>(
+  request: NextRequest,
+  options: AuthkitOptions<TBearerAuth> = {},
+): Promise<AuthkitResponse<AuthkitSession<TBearerAuth>>> {
+  return (await updateSession(request, options)) as AuthkitResponse<AuthkitSession<TBearerAuth>>;
 }
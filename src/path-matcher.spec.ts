@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import { parse } from 'path-to-regexp';
+import { matchesPath, normalizePathname } from './path-matcher.js';
+
+vi.mock('path-to-regexp', async () => {
+  const actual = await vi.importActual<typeof import('path-to-regexp')>('path-to-regexp');
+  return { ...actual, parse: vi.fn(actual.parse) };
+});
+
+describe('path-matcher', () => {
+  const request = (url: string, init?: ConstructorParameters<typeof NextRequest>[1]) =>
+    new NextRequest(new URL(url, 'http://example.com'), init);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('matches path patterns', () => {
+    const matchers = ['/admin/:path*'];
+
+    expect(matchesPath(request('/admin/users'), matchers)).toBe(true);
+    expect(matchesPath(request('/dashboard'), matchers)).toBe(false);
+  });
+
+  it('matches regular expressions against the pathname', () => {
+    const matchers = [/^\/public\//g];
+
+    expect(matchesPath(request('/public/a?x=1'), matchers)).toBe(true);
+    // The global flag must not carry state over from the previous request
+    expect(matchesPath(request('/public/b'), matchers)).toBe(true);
+    expect(matchesPath(request('/private/a'), matchers)).toBe(false);
+  });
+
+  it('matches against the given pathname instead of the request pathname', () => {
+    const matchers = ['/dashboard', /^\/settings$/];
+
+    expect(matchesPath(request('/de/dashboard'), matchers, { pathname: '/dashboard' })).toBe(true);
+    expect(matchesPath(request('/de/settings'), matchers, { pathname: '/settings' })).toBe(true);
+    expect(matchesPath(request('/de/dashboard'), matchers)).toBe(false);
+  });
+
+  it('calls predicates with the request', () => {
+    const predicate = vi.fn((req: NextRequest) => req.method === 'POST');
+    const post = request('/api/webhooks', { method: 'POST' });
+
+    expect(matchesPath(post, [predicate])).toBe(true);
+    expect(predicate).toHaveBeenCalledWith(post);
+    expect(matchesPath(request('/api/webhooks'), [predicate])).toBe(false);
+  });
+
+  it('parses path patterns once per list of matchers', () => {
+    const matchers = ['/a', '/b'];
+
+    matchesPath(request('/a'), matchers);
+    matchesPath(request('/b'), matchers);
+    matchesPath(request('/c'), matchers);
+
+    expect(parse).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches by the given key', () => {
+    const rule = { matcher: '/a' };
+
+    matchesPath(request('/a'), [rule.matcher], { cacheKey: rule });
+    matchesPath(request('/a'), [rule.matcher], { cacheKey: rule });
+
+    expect(parse).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws for invalid path patterns', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => matchesPath(request('/a'), ['/:'])).toThrow('Error parsing routes for middleware auth.');
+  });
+
+  describe('normalizePathname', () => {
+    it('strips the base path', () => {
+      expect(normalizePathname('/docs/dashboard', { basePath: '/docs' })).toBe('/dashboard');
+      expect(normalizePathname('/docs', { basePath: '/docs' })).toBe('/');
+      expect(normalizePathname('/docsearch', { basePath: '/docs' })).toBe('/docsearch');
+    });
+
+    it('strips a leading locale segment', () => {
+      const locales = ['en', 'de', 'fr-CA'];
+
+      expect(normalizePathname('/de/dashboard', { locales })).toBe('/dashboard');
+      expect(normalizePathname('/fr-ca/dashboard', { locales })).toBe('/dashboard');
+      expect(normalizePathname('/en', { locales })).toBe('/');
+      expect(normalizePathname('/dashboard/en', { locales })).toBe('/dashboard/en');
+      expect(normalizePathname('/es/dashboard', { locales })).toBe('/es/dashboard');
+    });
+
+    it('strips the base path before the locale', () => {
+      expect(normalizePathname('/docs/de/dashboard', { basePath: '/docs', locales: ['de'] })).toBe('/dashboard');
+      expect(normalizePathname('/de/docs/dashboard', { basePath: '/docs', locales: ['de'] })).toBe('/docs/dashboard');
+    });
+
+    it('leaves the pathname as is without options', () => {
+      expect(normalizePathname('/de/dashboard')).toBe('/de/dashboard');
+    });
+  });
+});
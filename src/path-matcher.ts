@@ -0,0 +1,90 @@
+import type { NextRequest } from 'next/server';
+import { parse, tokensToRegexp } from 'path-to-regexp';
+import type { PathMatcher } from './interfaces.js';
+import { getLogger } from './logger.js';
+
+type CompiledPathMatcher = (request: NextRequest, pathname: string) => boolean;
+
+// Compiled matchers keyed by the configuration they were compiled from, so
+// patterns are parsed once per proxy/middleware instead of on every request
+const compiledMatchers = new WeakMap<object, CompiledPathMatcher>();
+
+export function getMiddlewareAuthPathRegex(pathGlob: string) {
+  try {
+    const url = new URL(pathGlob, 'https://example.com');
+    const path = `${url.pathname!}${url.hash || ''}`;
+
+    const tokens = parse(path);
+    const regex = tokensToRegexp(tokens).source;
+
+    return new RegExp(regex);
+  } catch (err) {
+    getLogger().error('Failed to parse a path pattern for middleware auth', { pattern: pathGlob, error: err });
+    const message = err instanceof Error ? err.message : String(err);
+
+    throw new Error(`Error parsing routes for middleware auth. Reason: ${message}`);
+  }
+}
+
+function compilePathMatcher(matcher: PathMatcher): CompiledPathMatcher {
+  if (typeof matcher === 'function') {
+    return (request) => matcher(request);
+  }
+
+  // Drop the stateful flags, so matching doesn't depend on the previous request
+  const regex =
+    typeof matcher === 'string'
+      ? getMiddlewareAuthPathRegex(matcher)
+      : new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, ''));
+
+  return (_request, pathname) => regex.test(pathname);
+}
+
+/**
+ * Strips the `basePath` and then a locale prefix from `pathname`, so path
+ * patterns don't need to be repeated for every locale. Locales are compared
+ * case-insensitively. Pass a `basePath` only for pathnames that still include
+ * it; Next.js removes it from `request.nextUrl.pathname`.
+ *
+ * @example
+ * normalizePathname('/docs/de/dashboard', { basePath: '/docs', locales: ['en', 'de'] }); // '/dashboard'
+ */
+export function normalizePathname(
+  pathname: string,
+  { basePath, locales = [] }: { basePath?: string; locales?: string[] } = {},
+): string {
+  let normalized = pathname;
+
+  if (basePath && basePath !== '/' && (normalized === basePath || normalized.startsWith(`${basePath}/`))) {
+    normalized = normalized.slice(basePath.length) || '/';
+  }
+
+  const [, firstSegment] = normalized.split('/');
+  if (firstSegment && locales.some((locale) => locale.toLowerCase() === firstSegment.toLowerCase())) {
+    normalized = normalized.slice(firstSegment.length + 1) || '/';
+  }
+
+  return normalized;
+}
+
+/**
+ * Whether the request matches any of `matchers`: path patterns (using the
+ * Next.js matcher syntax), regular expressions tested against the pathname,
+ * or predicates called with the request.
+ * @param options.pathname The pathname patterns and regular expressions are tested against. Defaults to the request pathname.
+ * @param options.cacheKey The object the compiled matchers are cached by. Defaults to `matchers`.
+ */
+export function matchesPath(
+  request: NextRequest,
+  matchers: readonly PathMatcher[],
+  { pathname = request.nextUrl.pathname, cacheKey = matchers }: { pathname?: string; cacheKey?: object } = {},
+): boolean {
+  let compiled = compiledMatchers.get(cacheKey);
+  if (!compiled) {
+    const compiledList = matchers.map(compilePathMatcher);
+    compiled = (req, path) => compiledList.some((matches) => matches(req, path));
+    compiledMatchers.set(cacheKey, compiled);
+  }
+
+  return compiled(request, pathname);
+}
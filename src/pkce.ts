@@ -3,8 +3,7 @@ import { unsealData } from 'iron-session';
 import { cookies } from 'next/headers';
 import { NextRequest } from 'next/server';
 import * as v from 'valibot';
-import { getPKCECookieOptions } from './cookie.js';
-import { WORKOS_COOKIE_PASSWORD } from './env-variables.js';
+import { getCookiePassword, getPKCECookieOptions } from './cookie.js';
 import { State, StateSchema } from './interfaces.js';
 
 export const PKCE_COOKIE_NAME = 'wos-auth-verifier';
@@ -132,7 +131,7 @@ export async function getStateFromPKCECookieValue(cookieValue: string): Promise<
   // Also, this function is not in a critically-high-performance path, so runtime validation
   // is an acceptable tradeoff for increased security and type-safety
   const unsealed = await unsealData(cookieValue, {
-    password: WORKOS_COOKIE_PASSWORD,
+    password: getCookiePassword(),
   });
 
   return v.parse(StateSchema, unsealed);
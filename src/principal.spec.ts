@@ -0,0 +1,51 @@
+import type { User } from '@workos-inc/node';
+import { withPrincipal } from './principal.js';
+import { getApiKeyPrincipalFromHeader, withAuth } from './session.js';
+
+vi.mock('./session.js', () => ({
+  getApiKeyPrincipalFromHeader: vi.fn(),
+  withAuth: vi.fn(),
+}));
+
+describe('principal.ts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(getApiKeyPrincipalFromHeader).mockResolvedValue(undefined);
+    vi.mocked(withAuth).mockResolvedValue({ user: null });
+  });
+
+  it('should return the API key the proxy/middleware validated', async () => {
+    const apiKey = {
+      type: 'api_key' as const,
+      apiKeyId: 'api_key_123',
+      name: 'CI',
+      organizationId: 'org_123',
+      permissions: ['projects:read'],
+    };
+    vi.mocked(getApiKeyPrincipalFromHeader).mockResolvedValue(apiKey);
+
+    expect(await withPrincipal()).toEqual(apiKey);
+    expect(withAuth).not.toHaveBeenCalled();
+  });
+
+  it('should return the signed-in user, including bearer sessions', async () => {
+    const session = { user: { id: 'user_123' } as User, sessionId: 'session_123', accessToken: 'access-token' };
+    vi.mocked(withAuth).mockResolvedValue(session);
+
+    expect(await withPrincipal()).toEqual({ type: 'user', session });
+    expect(withAuth).toHaveBeenCalledWith({ allowBearer: true });
+  });
+
+  it('should return null for anonymous requests', async () => {
+    expect(await withPrincipal()).toBeNull();
+  });
+
+  it('should pass resolveConfig on to withAuth', async () => {
+    const resolveConfig = vi.fn();
+
+    await withPrincipal({ resolveConfig });
+
+    expect(withAuth).toHaveBeenCalledWith({ resolveConfig, allowBearer: true });
+  });
+});
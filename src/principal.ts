@@ -0,0 +1,32 @@
+import 'server-only';
+
+import type { Principal, WithAuthOptions } from './interfaces.js';
+import { getApiKeyPrincipalFromHeader, withAuth } from './session.js';
+
+/**
+ * Returns who the current request is authenticated as: a signed-in user (from
+ * the session cookie or a bearer access token), or a WorkOS API key accepted
+ * by the proxy/middleware on one of the `apiKeyAuth` paths. Returns `null` for
+ * anonymous requests.
+ *
+ * @example
+ * ```typescript
+ * const principal = await withPrincipal();
+ * if (!principal) {
+ *   return Response.json({ error: 'unauthorized' }, { status: 401 });
+ * }
+ *
+ * const organizationId =
+ *   principal.type === 'api_key' ? principal.organizationId : principal.session.organizationId;
+ * ```
+ */
+export async function withPrincipal(options: Pick<WithAuthOptions, 'resolveConfig'> = {}): Promise<Principal | null> {
+  const apiKey = await getApiKeyPrincipalFromHeader(options);
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const session = await withAuth({ ...options, allowBearer: true });
+
+  return session.user ? { type: 'user', session } : null;
+}
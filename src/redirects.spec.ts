@@ -0,0 +1,112 @@
+import { configureAuthKit, runWithAuthKitConfig } from './config.js';
+import { getAbsoluteSafeRedirect, getSafeRedirect } from './redirects.js';
+
+describe('redirects', () => {
+  describe('getSafeRedirect', () => {
+    const appUrl = 'https://example.com/account';
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('allows paths on the app', () => {
+      expect(getSafeRedirect('/dashboard?tab=billing#plan', appUrl)).toBe('/dashboard?tab=billing#plan');
+      expect(getSafeRedirect('/a/../b')).toBe('/b');
+    });
+
+    it('allows absolute URLs on the origin of the app', () => {
+      expect(getSafeRedirect('https://example.com/invite/123', appUrl)).toBe('https://example.com/invite/123');
+    });
+
+    it('rejects the host of the app over http or on another port', () => {
+      expect(getSafeRedirect('http://example.com/invite/123', appUrl)).toBe('/');
+      expect(getSafeRedirect('https://example.com:8443/invite/123', appUrl)).toBe('/');
+    });
+
+    it.each([
+      'https://evil.com/phishing',
+      '//evil.com/phishing',
+      '/\\evil.com/phishing',
+      '/\t/evil.com',
+      'javascript:alert(document.domain)',
+      'data:text/html,<script>alert(1)</script>',
+      'ftp://example.com/file',
+      'https://example.com.evil.com',
+    ])('replaces %s with the fallback', (target) => {
+      expect(getSafeRedirect(target, appUrl)).toBe('/');
+    });
+
+    it('checks absolute URLs against the redirect URI when the URL of the app is unknown', () => {
+      runWithAuthKitConfig({ redirectUri: 'https://example.com/callback' }, () => {
+        expect(getSafeRedirect('https://example.com/invite/123')).toBe('https://example.com/invite/123');
+        expect(getSafeRedirect('http://example.com/invite/123')).toBe('/');
+      });
+    });
+
+    it('rejects absolute URLs when neither the URL of the app nor the redirect URI is known', () => {
+      runWithAuthKitConfig({ redirectUri: '' }, () => {
+        expect(getSafeRedirect('https://example.com/invite/123')).toBe('/');
+      });
+    });
+
+    it('allows absolute URLs on the allowed origins', () => {
+      runWithAuthKitConfig({ redirects: { allowedOrigins: ['https://docs.example.com/'] } }, () => {
+        expect(getSafeRedirect('https://docs.example.com/guides', appUrl)).toBe('https://docs.example.com/guides');
+        expect(getSafeRedirect('http://docs.example.com/guides', appUrl)).toBe('/');
+      });
+    });
+
+    it('requires the path to start with one of the allowed path prefixes', () => {
+      runWithAuthKitConfig({ redirects: { allowedPathPrefixes: ['/app', '/settings/'] } }, () => {
+        expect(getSafeRedirect('/app', appUrl)).toBe('/app');
+        expect(getSafeRedirect('/app/projects', appUrl)).toBe('/app/projects');
+        expect(getSafeRedirect('/settings/profile', appUrl)).toBe('/settings/profile');
+        expect(getSafeRedirect('/apple', appUrl)).toBe('/');
+        expect(getSafeRedirect('/app/../admin', appUrl)).toBe('/');
+      });
+    });
+
+    it('warns and returns the configured fallback for unsafe targets', () => {
+      configureAuthKit({ redirects: { fallback: '/home' } });
+
+      try {
+        expect(getSafeRedirect('https://evil.com', appUrl)).toBe('/home');
+      } finally {
+        configureAuthKit({ redirects: undefined });
+      }
+
+      expect(console.warn).toHaveBeenCalledWith('Unsafe redirect target, redirecting to the fallback instead', {
+        target: 'https://evil.com',
+        fallback: '/home',
+      });
+    });
+
+    it('throws on invalid allowed origins', () => {
+      runWithAuthKitConfig({ redirects: { allowedOrigins: ['docs.example.com'] } }, () => {
+        expect(() => getSafeRedirect('https://docs.example.com', appUrl)).toThrow(
+          'Invalid redirect origin: docs.example.com',
+        );
+      });
+    });
+  });
+
+  describe('getAbsoluteSafeRedirect', () => {
+    it('resolves paths against the URL of the app', () => {
+      expect(getAbsoluteSafeRedirect('/signed-out', 'https://example.com/account')).toBe(
+        'https://example.com/signed-out',
+      );
+    });
+
+    it('resolves paths against the redirect URI when the URL of the app is unknown', () => {
+      runWithAuthKitConfig({ redirectUri: 'https://example.com/callback' }, () => {
+        expect(getAbsoluteSafeRedirect('/signed-out')).toBe('https://example.com/signed-out');
+      });
+    });
+
+    it('returns undefined for paths when neither the URL of the app nor the redirect URI is known', () => {
+      runWithAuthKitConfig({ redirectUri: '' }, () => {
+        expect(getAbsoluteSafeRedirect('/signed-out')).toBeUndefined();
+      });
+    });
+  });
+});
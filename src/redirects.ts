@@ -0,0 +1,90 @@
+import { getConfig } from './config.js';
+import { getLogger } from './logger.js';
+
+// Base for resolving targets when the URL of the app isn't known
+const PLACEHOLDER_BASE = 'https://authkit.invalid';
+
+const SCHEME_PATTERN = /^[a-z][a-z\d+\-.]*:/i;
+
+function matchesPathPrefix(pathname: string, prefix: string) {
+  return pathname === prefix || pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+}
+
+function parseUrl(target: string, base?: URL) {
+  try {
+    return new URL(target, base);
+  } catch {
+    return undefined;
+  }
+}
+
+// Without the URL of the current request, the app is assumed to be served
+// from the origin of its redirect URI
+function getAppUrl(appUrl?: string | URL) {
+  if (appUrl !== undefined) {
+    return new URL(appUrl);
+  }
+
+  const { redirectUri } = getConfig();
+  return redirectUri ? parseUrl(redirectUri) : undefined;
+}
+
+function parseOrigin(origin: string) {
+  try {
+    return new URL(origin).origin;
+  } catch (error) {
+    throw new Error(`Invalid redirect origin: ${origin}`, { cause: error });
+  }
+}
+
+/**
+ * Returns `target` if it is safe to redirect to, and the configured fallback
+ * otherwise. Safe targets are paths on the app and absolute URLs on the origin
+ * of `appUrl` (or of the redirect URI, when `appUrl` isn't known) or on one of
+ * the allowed origins; when allowed path prefixes are configured, the path must
+ * also start with one of them.
+ *
+ * Paths are returned normalized, e.g. `/a/../b` becomes `/b`, and absolute
+ * URLs are returned as absolute URLs.
+ *
+ * @param target The URL or path to redirect to, usually from a `returnTo` option.
+ * @param appUrl The URL of the current request, if known.
+ *
+ * @example
+ * ```typescript
+ * const next = getSafeRedirect(searchParams.get('next') ?? '/', headersList.get('x-url') ?? undefined);
+ * redirect(next);
+ * ```
+ */
+export function getSafeRedirect(target: string, appUrl?: string | URL): string {
+  const { redirects: { allowedOrigins = [], allowedPathPrefixes = [], fallback = '/' } = {} } = getConfig();
+  const app = getAppUrl(appUrl);
+  const base = app ?? new URL(PLACEHOLDER_BASE);
+  const isAbsolute = SCHEME_PATTERN.test(target);
+  const url = parseUrl(target, base);
+
+  // Absolute URLs must match the scheme and port of the app too, so a target
+  // can't downgrade to `http:` or point at another service on the same host
+  const isAppUrl = url?.origin === base.origin && (app !== undefined || !isAbsolute);
+  const isAllowedOrigin = url !== undefined && allowedOrigins.some((origin) => parseOrigin(origin) === url.origin);
+  const isAllowedPath =
+    url !== undefined &&
+    (allowedPathPrefixes.length === 0 || allowedPathPrefixes.some((prefix) => matchesPathPrefix(url.pathname, prefix)));
+
+  if (!url || !(isAppUrl || isAllowedOrigin) || !isAllowedPath) {
+    getLogger().warn('Unsafe redirect target, redirecting to the fallback instead', { target, fallback });
+    return fallback;
+  }
+
+  return isAbsolute ? url.href : `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Like `getSafeRedirect`, but resolves paths against the URL of the app, for
+ * targets that are followed from outside of it such as the return URL of the
+ * WorkOS logout. Returns `undefined` for paths when the URL of the app isn't
+ * known.
+ */
+export function getAbsoluteSafeRedirect(target: string, appUrl?: string | URL): string | undefined {
+  return parseUrl(getSafeRedirect(target, appUrl), getAppUrl(appUrl))?.href;
+}
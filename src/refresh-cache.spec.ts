@@ -0,0 +1,145 @@
+import type { MockInstance } from 'vitest';
+import type { User } from '@workos-inc/node';
+import { configureAuthKit } from './config.js';
+import type { RefreshCache, RefreshResult } from './interfaces.js';
+import { authenticateWithRefreshToken, createMemoryRefreshCache } from './refresh-cache.js';
+import { getWorkOS } from './workos.js';
+
+const workos = getWorkOS();
+
+describe('refresh-cache', () => {
+  const result: RefreshResult = {
+    accessToken: 'new-access-token',
+    refreshToken: 'new-refresh-token',
+    user: { id: 'user_123' } as User,
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    configureAuthKit({ refreshCache: undefined });
+  });
+
+  describe('createMemoryRefreshCache', () => {
+    it('returns cached results by key', async () => {
+      const cache = createMemoryRefreshCache();
+
+      await cache.set('key_1', result);
+
+      expect(await cache.get('key_1')).toEqual(result);
+      expect(await cache.get('key_2')).toBeUndefined();
+    });
+
+    it('expires results after ttlSeconds', async () => {
+      vi.useFakeTimers();
+      const cache = createMemoryRefreshCache({ ttlSeconds: 5 });
+
+      await cache.set('key_1', result);
+      vi.advanceTimersByTime(4000);
+      expect(await cache.get('key_1')).toEqual(result);
+
+      vi.advanceTimersByTime(1000);
+      expect(await cache.get('key_1')).toBeUndefined();
+    });
+  });
+
+  describe('authenticateWithRefreshToken', () => {
+    let refresh: MockInstance<typeof workos.userManagement.authenticateWithRefreshToken>;
+
+    beforeEach(() => {
+      configureAuthKit({ refreshCache: createMemoryRefreshCache() });
+      refresh = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        ...result,
+        authenticationMethod: 'Password',
+      });
+    });
+
+    it('shares a single refresh between concurrent calls with the same refresh token', async () => {
+      const results = await Promise.all([
+        authenticateWithRefreshToken({ refreshToken: 'refresh-token' }),
+        authenticateWithRefreshToken({ refreshToken: 'refresh-token' }),
+      ]);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(refresh).toHaveBeenCalledWith({
+        clientId: process.env.WORKOS_CLIENT_ID,
+        refreshToken: 'refresh-token',
+        organizationId: undefined,
+      });
+      expect(results[0]).toEqual(results[1]);
+      expect(results[0]).toMatchObject(result);
+    });
+
+    it('shares an in-flight refresh when the refresh cache is disabled', async () => {
+      configureAuthKit({ refreshCache: false });
+      let resolveRefresh!: () => void;
+      refresh.mockImplementation(
+        () =>
+          new Promise((resolve) => (resolveRefresh = () => resolve({ ...result, authenticationMethod: 'Password' }))),
+      );
+
+      const first = authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+      const second = authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+      await vi.waitFor(() => expect(refresh).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      resolveRefresh();
+
+      expect(await first).toEqual(await second);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns the cached result for a refresh token that was just rotated', async () => {
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+      const cached = await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(cached).toMatchObject(result);
+    });
+
+    it('refreshes separately for a different organization', async () => {
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token', organizationId: 'org_123' });
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache failed refreshes', async () => {
+      refresh.mockRejectedValueOnce(new Error('invalid_grant'));
+
+      await expect(authenticateWithRefreshToken({ refreshToken: 'refresh-token' })).rejects.toThrow('invalid_grant');
+      expect(await authenticateWithRefreshToken({ refreshToken: 'refresh-token' })).toMatchObject(result);
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it('keys a custom cache by a hash of the refresh token', async () => {
+      const cache: RefreshCache = { get: vi.fn(), set: vi.fn() };
+      configureAuthKit({ refreshCache: cache });
+
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+
+      const [key] = vi.mocked(cache.set).mock.calls[0];
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(cache.get).toHaveBeenCalledWith(key);
+    });
+
+    it('refreshes when the cache fails', async () => {
+      configureAuthKit({
+        refreshCache: {
+          get: () => Promise.reject(new Error('cache unavailable')),
+          set: () => Promise.reject(new Error('cache unavailable')),
+        },
+      });
+
+      expect(await authenticateWithRefreshToken({ refreshToken: 'refresh-token' })).toMatchObject(result);
+    });
+
+    it('does not cache results when the refresh cache is disabled', async () => {
+      configureAuthKit({ refreshCache: false });
+
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+      await authenticateWithRefreshToken({ refreshToken: 'refresh-token' });
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { getAuthKitConfig, getConfig } from './config.js';
+import type { RefreshCache, RefreshResult } from './interfaces.js';
+import { createTtlMap } from './ttl-map.js';
+import { getCacheKey } from './utils.js';
+import { getWorkOS } from './workos.js';
+
+export interface MemoryRefreshCacheOptions {
+  /** Number of seconds a refresh result is kept. Defaults to 10 seconds. */
+  ttlSeconds?: number;
+}
+
+/**
+ * Creates an in-memory `RefreshCache`.
+ *
+ * Results are kept in the memory of the current server process, so they aren't
+ * shared between instances. Implement `RefreshCache` on top of a shared store
+ * for multi-instance deployments.
+ */
+export function createMemoryRefreshCache({ ttlSeconds = 10 }: MemoryRefreshCacheOptions = {}): RefreshCache {
+  const results = createTtlMap<RefreshResult>();
+
+  return {
+    get(key) {
+      return results.get(key);
+    },
+    set(key, result) {
+      results.set(key, result, ttlSeconds);
+    },
+  };
+}
+
+const defaultRefreshCache = createMemoryRefreshCache();
+
+// Refreshes in progress in this process, keyed like the refresh cache
+const inFlightRefreshes = new Map<string, Promise<RefreshResult>>();
+
+function getRefreshCache(): RefreshCache | undefined {
+  const { refreshCache } = getAuthKitConfig();
+  if (refreshCache === false) {
+    return undefined;
+  }
+
+  return refreshCache ?? defaultRefreshCache;
+}
+
+/**
+ * Rotate a refresh token with WorkOS. Concurrent calls with the same refresh
+ * token share a single request, and calls made shortly after a rotation receive
+ * its result from the refresh cache, since refresh tokens are single-use.
+ */
+export async function authenticateWithRefreshToken({
+  refreshToken,
+  organizationId,
+}: {
+  refreshToken: string;
+  organizationId?: string;
+}): Promise<RefreshResult> {
+  const { clientId } = getConfig();
+  const key = await getCacheKey(clientId, organizationId ?? null, refreshToken);
+
+  const inFlight = inFlightRefreshes.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const refresh = (async () => {
+    const cache = getRefreshCache();
+
+    // A cache outage must not fail the refresh; treat it as a miss
+    const cached = await Promise.resolve(cache?.get(key)).catch(() => undefined);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await getWorkOS().userManagement.authenticateWithRefreshToken({
+      clientId,
+      refreshToken,
+      organizationId,
+    });
+    const result: RefreshResult = {
+      accessToken: response.accessToken,
+      refreshToken: response.refreshToken,
+      user: response.user,
+      impersonator: response.impersonator,
+      authenticationMethod: response.authenticationMethod,
+      organizationId: response.organizationId,
+    };
+
+    await Promise.resolve(cache?.set(key, result)).catch(() => undefined);
+
+    return result;
+  })();
+
+  inFlightRefreshes.set(key, refresh);
+  try {
+    return await refresh;
+  } finally {
+    inFlightRefreshes.delete(key);
+  }
+}
@@ -0,0 +1,58 @@
+import type { User } from '@workos-inc/node';
+import { SessionDecryptionError } from './errors.js';
+import { SESSION_PAYLOAD_VERSION, parseSessionPayload, toSessionPayload } from './session-payload.js';
+
+describe('session-payload', () => {
+  const session = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    user: { id: 'user_123', email: 'test@example.com' } as User,
+  };
+
+  describe('toSessionPayload', () => {
+    it('tags the session with the current payload version', () => {
+      expect(toSessionPayload(session)).toEqual({ ...session, v: SESSION_PAYLOAD_VERSION });
+    });
+  });
+
+  describe('parseSessionPayload', () => {
+    it('returns the session without the version field', () => {
+      expect(parseSessionPayload(toSessionPayload(session))).toEqual(session);
+    });
+
+    it('migrates unversioned payloads sealed by earlier releases', () => {
+      expect(parseSessionPayload(session)).toEqual(session);
+    });
+
+    it('keeps optional session fields and every user field', () => {
+      const fullSession = {
+        ...session,
+        impersonator: { email: 'admin@example.com', reason: null },
+        authenticationMethod: 'Password' as const,
+      };
+
+      expect(parseSessionPayload(toSessionPayload(fullSession))).toEqual(fullSession);
+    });
+
+    it('drops fields that are not part of the session', () => {
+      expect(parseSessionPayload({ ...toSessionPayload(session), organizationId: 'org_123' })).toEqual(session);
+    });
+
+    it('throws a SessionDecryptionError for an empty payload', () => {
+      expect(() => parseSessionPayload({})).toThrow(SessionDecryptionError);
+    });
+
+    it('throws a SessionDecryptionError for a payload that does not match the schema', () => {
+      const { refreshToken: _refreshToken, ...withoutRefreshToken } = session;
+
+      expect(() => parseSessionPayload(toSessionPayload({ ...session, user: {} as User }))).toThrow(
+        SessionDecryptionError,
+      );
+      expect(() => parseSessionPayload(withoutRefreshToken)).toThrow(SessionDecryptionError);
+    });
+
+    it('throws a SessionDecryptionError for a payload version it does not know', () => {
+      expect(() => parseSessionPayload({ ...session, v: SESSION_PAYLOAD_VERSION + 1 })).toThrow(SessionDecryptionError);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import * as v from 'valibot';
+import { SessionDecryptionError } from './errors.js';
+import { Session, SessionPayload, SessionPayloadSchema } from './interfaces.js';
+
+/** The payload version written to newly sealed sessions. */
+export const SESSION_PAYLOAD_VERSION: SessionPayload['v'] = 1;
+
+type SessionPayloadMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrade functions keyed by the payload version they migrate from. Each one
+ * returns the payload in the shape of the next version, so a payload sealed by
+ * any earlier release is upgraded one version at a time. When changing
+ * `SessionPayloadSchema`, bump `SESSION_PAYLOAD_VERSION` and register the
+ * migration from the previous version here.
+ */
+const migrations: Record<number, SessionPayloadMigration> = {
+  // Sessions sealed before payloads were versioned carry no `v` field, but
+  // otherwise have the same shape as version 1.
+  0: (payload) => ({ ...payload, v: 1 }),
+};
+
+/**
+ * Tags a session with the current payload version before it is sealed.
+ */
+export function toSessionPayload<T extends Session>(session: T): T & { v: SessionPayload['v'] } {
+  return { ...session, v: SESSION_PAYLOAD_VERSION };
+}
+
+/**
+ * Upgrades an unsealed session payload to the current version and validates
+ * it against `SessionPayloadSchema`.
+ * @throws {SessionDecryptionError} If the payload can't be migrated or doesn't match the schema.
+ */
+export function parseSessionPayload(data: object): Session {
+  let payload = data as Record<string, unknown>;
+  const version = payload.v === undefined ? 0 : payload.v;
+
+  if (typeof version === 'number' && version < SESSION_PAYLOAD_VERSION) {
+    for (let from = version; from < SESSION_PAYLOAD_VERSION; from++) {
+      const migrate = migrations[from];
+      if (!migrate) {
+        throw new SessionDecryptionError(`Unsupported session payload version: ${version}`);
+      }
+      payload = migrate(payload);
+    }
+  }
+
+  const result = v.safeParse(SessionPayloadSchema, payload);
+  if (!result.success) {
+    throw new SessionDecryptionError(
+      'The session payload does not match the session schema',
+      new v.ValiError(result.issues),
+    );
+  }
+
+  const { v: _version, ...session } = result.output;
+  return session;
+}
@@ -0,0 +1,82 @@
+import type { User } from '@workos-inc/node';
+import { createMemorySessionStore } from './session-store.js';
+
+describe('session-store', () => {
+  const session = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    user: { id: 'user_123' } as User,
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createMemorySessionStore', () => {
+    it('stores and returns sessions by id', async () => {
+      const store = createMemorySessionStore();
+
+      await store.set('id_1', session);
+
+      expect(await store.get('id_1')).toEqual(session);
+      expect(await store.get('id_2')).toBeUndefined();
+    });
+
+    it('keeps the sessions of separate stores apart', async () => {
+      await createMemorySessionStore().set('id_isolated', session);
+
+      expect(await createMemorySessionStore().get('id_isolated')).toBeUndefined();
+    });
+
+    it('shares sessions between stores created with the same name', async () => {
+      // Like the stores created by the proxy/middleware and route handler bundles
+      await createMemorySessionStore({ name: 'shared' }).set('id_shared', session);
+
+      expect(await createMemorySessionStore({ name: 'shared' }).get('id_shared')).toEqual(session);
+      expect(await createMemorySessionStore({ name: 'other' }).get('id_shared')).toBeUndefined();
+      expect(await createMemorySessionStore().get('id_shared')).toBeUndefined();
+    });
+
+    it('deletes sessions', async () => {
+      const store = createMemorySessionStore();
+
+      await store.set('id_1', session);
+      await store.delete('id_1');
+
+      expect(await store.get('id_1')).toBeUndefined();
+    });
+
+    it('expires sessions after the configured ttl', async () => {
+      vi.useFakeTimers();
+      const store = createMemorySessionStore({ ttlSeconds: 60 });
+
+      await store.set('id_1', session);
+      vi.advanceTimersByTime(61 * 1000);
+
+      expect(await store.get('id_1')).toBeUndefined();
+    });
+
+    it('extends the expiry when a session is touched', async () => {
+      vi.useFakeTimers();
+      const store = createMemorySessionStore({ ttlSeconds: 60 });
+
+      await store.set('id_1', session);
+      vi.advanceTimersByTime(45 * 1000);
+      await store.touch('id_1');
+      vi.advanceTimersByTime(45 * 1000);
+
+      expect(await store.get('id_1')).toEqual(session);
+    });
+
+    it('does not revive an expired session when touched', async () => {
+      vi.useFakeTimers();
+      const store = createMemorySessionStore({ ttlSeconds: 60 });
+
+      await store.set('id_1', session);
+      vi.advanceTimersByTime(61 * 1000);
+      await store.touch('id_1');
+
+      expect(await store.get('id_1')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import type { Session, SessionStore } from './interfaces.js';
+import { createTtlMap, type TtlMap } from './ttl-map.js';
+
+export interface MemorySessionStoreOptions {
+  /**
+   * Number of seconds after the last write or activity at which a stored
+   * session is discarded. Defaults to 400 days, matching the session cookie.
+   */
+  ttlSeconds?: number;
+  /**
+   * Shares the sessions with every store created with the same name in this
+   * process. Next.js bundles the proxy/middleware separately from route
+   * handlers and server components, so a store without a name only sees the
+   * sessions of the bundle it was created in.
+   */
+  name?: string;
+}
+
+// Named stores are kept on `globalThis`, since each bundle gets its own copy
+// of this module
+const NAMED_SESSIONS_KEY = Symbol.for('@workos-inc/authkit-nextjs/memory-sessions');
+
+function getNamedSessions(name: string): TtlMap<Session> {
+  const scope = globalThis as typeof globalThis & { [NAMED_SESSIONS_KEY]?: Map<string, TtlMap<Session>> };
+  const namedSessions = (scope[NAMED_SESSIONS_KEY] ??= new Map());
+
+  let sessions = namedSessions.get(name);
+  if (!sessions) {
+    sessions = createTtlMap();
+    namedSessions.set(name, sessions);
+  }
+
+  return sessions;
+}
+
+/**
+ * Creates an in-memory `SessionStore`.
+ *
+ * Sessions are kept in the memory of the current server process, so they are
+ * lost on restart and aren't shared between instances. Give the store a
+ * `name` so the proxy/middleware and route handlers share its sessions; the
+ * proxy/middleware must then run in the Node.js runtime. Use it for
+ * development or single-instance deployments, and implement `SessionStore` on
+ * top of a shared store (Redis, KV, a database) otherwise.
+ */
+export function createMemorySessionStore({
+  ttlSeconds = 60 * 60 * 24 * 400,
+  name,
+}: MemorySessionStoreOptions = {}): SessionStore {
+  const sessions = name === undefined ? createTtlMap<Session>() : getNamedSessions(name);
+
+  return {
+    get(id) {
+      return sessions.get(id);
+    },
+    set(id, session) {
+      sessions.set(id, session, ttlSeconds);
+    },
+    delete(id) {
+      sessions.delete(id);
+    },
+    touch(id) {
+      sessions.touch(id, ttlSeconds);
+    },
+  };
+}
@@ -2,7 +2,8 @@ import type { Mock, MockInstance } from 'vitest';
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { generateTestToken } from './test-helpers.js';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { generateTestToken, registerTestTracer } from './test-helpers.js';
 import {
   withAuth,
   updateSession,
@@ -10,7 +11,17 @@ import {
   updateSessionMiddleware,
   getTokenClaims,
   checkRecentAuth,
+  requireRecentAuth,
+  saveSession,
+  getSessionFromCookie,
+  getApiKeyPrincipalFromHeader,
 } from './session.js';
+import { configureAuthKit } from './config.js';
+import { SessionDecryptionError } from './errors.js';
+import { createAuthKitEvents } from './events.js';
+import { createMemoryRefreshCache } from './refresh-cache.js';
+import { createMemorySessionStore } from './session-store.js';
+import type { AuthkitMiddlewareAuth, SessionStore } from './interfaces.js';
 import { getWorkOS } from './workos.js';
 import * as envVariables from './env-variables.js';
 
@@ -20,7 +31,7 @@ import { SignJWT, jwtVerify } from 'jose';
 function setEnvVar(mod: Record<string, unknown>, key: string, value: unknown) {
   Object.defineProperty(mod, key, { value, configurable: true });
 }
-import { sealData } from 'iron-session';
+import { sealData, unsealData } from 'iron-session';
 import { User } from '@workos-inc/node';
 import { getStateFromPKCECookieValue } from './pkce.js';
 import { handleAuthkitHeaders } from './middleware-helpers.js';
@@ -43,6 +54,7 @@ const workos = getWorkOS();
 describe('session.ts', () => {
   const mockSession = {
     accessToken: 'access-token',
+    refreshToken: 'refresh-token',
     oauthTokens: undefined,
     sessionId: 'session_123',
     organizationId: 'org_123',
@@ -65,6 +77,32 @@ describe('session.ts', () => {
     } as User,
   };
 
+  // Builds a request to `pathname` whose session cookie holds `mockSession`
+  // with `overrides`, and a valid access token unless one is given
+  async function requestWithSession(overrides: Record<string, unknown> = {}, pathname = '/protected') {
+    const request = new NextRequest(new URL(pathname, 'http://example.com'));
+    request.cookies.set(
+      'wos-session',
+      await sealData(
+        { ...mockSession, accessToken: await generateTestToken(), ...overrides },
+        { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+      ),
+    );
+
+    return request;
+  }
+
+  // Forwards `mockSession` to server components the way the proxy/middleware
+  // does, with an access token issued at `authTime` if given
+  async function authenticate(authTime?: number) {
+    mockSession.accessToken = await generateTestToken(authTime === undefined ? {} : { auth_time: authTime });
+    const nextHeaders = await headers();
+    nextHeaders.set(
+      'x-workos-session',
+      await sealData(mockSession, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
+    );
+  }
+
   let consoleLogSpy: MockInstance;
 
   beforeEach(async () => {
@@ -83,6 +121,9 @@ describe('session.ts', () => {
 
     (jwtVerify as Mock).mockReset();
 
+    // Refresh results are cached by refresh token, which the tests reuse
+    configureAuthKit({ refreshCache: createMemoryRefreshCache() });
+
     consoleLogSpy = vi.spyOn(console, 'log').mockImplementation((...args) => {
       if (DEBUG) {
         console.info(...args);
@@ -147,6 +188,21 @@ describe('session.ts', () => {
       warnSpy.mockRestore();
     });
 
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      const brandPassword = 'a-cookie-password-for-the-brand-tenant';
+      const resolveConfig = vi.fn(() => ({ cookiePassword: brandPassword }));
+      mockSession.accessToken = await generateTestToken();
+
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+      nextHeaders.set('x-workos-session', await sealData(mockSession, { password: brandPassword }));
+
+      const result = await withAuth({ resolveConfig });
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(result.user).toEqual(mockSession.user);
+    });
+
     it('should return null when user is not authenticated', async () => {
       const result = await withAuth();
 
@@ -355,8 +411,12 @@ describe('session.ts', () => {
       expect(result.status).toBe(200);
       expect(console.log).toHaveBeenCalledWith(
         `Session invalid. Refreshing access token that ends in ${mockSession.accessToken.slice(-10)}`,
+        expect.objectContaining({ path: '/' }),
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Session successfully refreshed'),
+        expect.objectContaining({ path: '/' }),
       );
-      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Session successfully refreshed'));
     });
 
     it('should delete the cookie when refreshing fails', async () => {
@@ -394,11 +454,12 @@ describe('session.ts', () => {
       expect(console.log).toHaveBeenNthCalledWith(
         1,
         `Session invalid. Refreshing access token that ends in ${mockSession.accessToken.slice(-10)}`,
+        expect.objectContaining({ path: '/' }),
       );
       expect(console.log).toHaveBeenNthCalledWith(
         2,
         'Failed to refresh. Deleting cookie.',
-        new Error('Failed to refresh'),
+        expect.objectContaining({ error: expect.objectContaining({ message: 'Failed to refresh' }) }),
       );
     });
 
@@ -447,7 +508,7 @@ describe('session.ts', () => {
       expect(response.headers.get('Set-Cookie') ?? '').not.toContain('wos-session=;');
       expect(console.log).toHaveBeenCalledWith(
         'Failed to refresh due to a transient error. Preserving the session cookie so it can be retried.',
-        transientError,
+        expect.objectContaining({ error: expect.objectContaining({ message: transientError.message }) }),
       );
     });
 
@@ -483,7 +544,10 @@ describe('session.ts', () => {
 
       expect(response.status).toBe(200);
       expect(response.headers.get('Set-Cookie')).toContain('wos-session=;');
-      expect(console.log).toHaveBeenCalledWith('Failed to refresh. Deleting cookie.', terminalError);
+      expect(console.log).toHaveBeenCalledWith(
+        'Failed to refresh. Deleting cookie.',
+        expect.objectContaining({ error: expect.objectContaining({ message: terminalError.message }) }),
+      );
     });
 
     describe('middleware auth', () => {
@@ -505,6 +569,7 @@ describe('session.ts', () => {
         expect(result.status).toBe(307);
         expect(console.log).toHaveBeenCalledWith(
           'Unauthenticated user on protected route http://example.com/protected, redirecting to AuthKit',
+          { path: '/protected' },
         );
       });
 
@@ -559,7 +624,7 @@ describe('session.ts', () => {
         expect(result.headers.get('Location')).toContain('screen_hint=sign-up');
       });
 
-      it('should not leak sign-up paths header to the browser', async () => {
+      it('should not leak the screen hint header to the browser', async () => {
         const request = new NextRequest(new URL('http://example.com/protected-signup'));
         const result = await updateSessionMiddleware(
           request,
@@ -572,8 +637,9 @@ describe('session.ts', () => {
           ['/protected-signup'],
         );
 
-        // x-sign-up-paths is an internal header that should not leak to the browser
-        expect(result.headers.get('x-sign-up-paths')).toBeNull();
+        // x-workos-screen-hint is an internal header that should not leak to the browser
+        expect(result.headers.get('x-workos-screen-hint')).toBeNull();
+        expect(result.headers.get('x-middleware-request-x-workos-screen-hint')).toBe('sign-up');
       });
 
       it('should allow logged out users on unauthenticated paths', async () => {
@@ -696,19 +762,242 @@ describe('session.ts', () => {
         expect(console.log).toHaveBeenNthCalledWith(
           1,
           `Session invalid. Refreshing access token that ends in ${mockSession.accessToken.slice(-10)}`,
+          expect.objectContaining({ path: '/' }),
         );
         expect(console.log).toHaveBeenNthCalledWith(
           2,
           'Failed to refresh. Deleting cookie.',
-          new Error('Failed to refresh'),
+          expect.objectContaining({ error: expect.objectContaining({ message: 'Failed to refresh' }) }),
         );
 
         expect(console.log).toHaveBeenNthCalledWith(
           3,
           'Unauthenticated user on protected route http://example.com/, redirecting to AuthKit',
+          { path: '/' },
         );
       });
 
+      describe('path matchers', () => {
+        const redirectUri = process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string;
+
+        it('should accept predicates that look at the request method', async () => {
+          const unauthenticatedPaths = [
+            (request: NextRequest) =>
+              request.method === 'POST' && request.nextUrl.pathname.startsWith('/api/webhooks/'),
+          ];
+          const middlewareAuth = { enabled: true, unauthenticatedPaths };
+          const url = 'http://example.com/api/webhooks/stripe';
+
+          const post = await updateSessionMiddleware(
+            new NextRequest(url, { method: 'POST' }),
+            false,
+            middlewareAuth,
+            redirectUri,
+            [],
+          );
+          const get = await updateSessionMiddleware(new NextRequest(url), false, middlewareAuth, redirectUri, []);
+
+          expect(post.headers.get('x-middleware-next')).toBe('1');
+          expect(get.status).toBe(307);
+        });
+
+        it('should accept regular expressions', async () => {
+          const middlewareAuth = { enabled: true, unauthenticatedPaths: [/^\/public(\/|$)/g] };
+
+          for (let i = 0; i < 2; i++) {
+            const result = await updateSessionMiddleware(
+              new NextRequest(new URL('http://example.com/public/docs')),
+              false,
+              middlewareAuth,
+              redirectUri,
+              [],
+            );
+            expect(result.headers.get('x-middleware-next')).toBe('1');
+          }
+        });
+
+        it('should accept regular expressions and predicates as sign up paths', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/join/team')),
+            false,
+            { enabled: true, unauthenticatedPaths: [] },
+            redirectUri,
+            [/^\/join\//, (request: NextRequest) => request.nextUrl.searchParams.has('invite')],
+          );
+
+          expect(result.headers.get('Location')).toContain('screen_hint=sign-up');
+        });
+
+        it('should match paths without the base path and locale prefix', async () => {
+          const middlewareAuth = { enabled: true, unauthenticatedPaths: ['/', '/pricing', '/docs/guide'] };
+          const run = (path: string) =>
+            updateSessionMiddleware(
+              new NextRequest(new URL(path, 'http://example.com'), { nextConfig: { basePath: '/docs' } }),
+              false,
+              middlewareAuth,
+              redirectUri,
+              ['/join'],
+              false,
+              undefined,
+              { locales: ['en', 'de'] },
+            );
+
+          expect((await run('/docs/de/pricing')).headers.get('x-middleware-next')).toBe('1');
+          expect((await run('/docs/en')).headers.get('x-middleware-next')).toBe('1');
+          expect((await run('/docs/docs/guide')).headers.get('x-middleware-next')).toBe('1');
+          expect((await run('/docs/guide')).status).toBe(307);
+          expect((await run('/docs/de/account')).status).toBe(307);
+          expect((await run('/docs/de/join')).headers.get('Location')).toContain('screen_hint=sign-up');
+        });
+
+        it('should keep the base path and locale prefix in the return pathname', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/docs/de/account?tab=billing'), {
+              nextConfig: { basePath: '/docs' },
+            }),
+            false,
+            { enabled: true, unauthenticatedPaths: [] },
+            redirectUri,
+            [],
+            false,
+            undefined,
+            { locales: ['en', 'de'] },
+          );
+
+          const sealedState = new URL(result.headers.get('Location')!).searchParams.get('state')!;
+          const { returnPathname } = await getStateFromPKCECookieValue(sealedState);
+
+          expect(returnPathname).toBe('/docs/de/account?tab=billing');
+        });
+
+        it('should allow the redirect URI path under the base path', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/docs/callback'), { nextConfig: { basePath: '/docs' } }),
+            false,
+            { enabled: true, unauthenticatedPaths: [] },
+            'http://example.com/docs/callback',
+            [],
+            false,
+            undefined,
+          );
+
+          expect(result.status).toBe(200);
+        });
+
+        it('should not add the redirect URI path to the unauthenticated paths passed in', async () => {
+          const unauthenticatedPaths: string[] = [];
+
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/callback')),
+            false,
+            { enabled: true, unauthenticatedPaths },
+            'http://example.com/callback',
+            [],
+          );
+
+          expect(result.status).toBe(200);
+          expect(unauthenticatedPaths).toEqual([]);
+        });
+      });
+
+      describe('unauthenticated API requests', () => {
+        const redirectUri = process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string;
+
+        it('should respond with 401 on API paths instead of redirecting', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/api/projects'), { headers: { accept: 'text/html' } }),
+            false,
+            { enabled: true, unauthenticatedPaths: [], apiPaths: ['/api/:path*'] },
+            redirectUri,
+            [],
+          );
+
+          expect(result.status).toBe(401);
+          expect(result.headers.get('WWW-Authenticate')).toBe('Bearer');
+          expect(result.headers.get('Location')).toBeNull();
+          expect(result.headers.get('Set-Cookie') ?? '').not.toContain('wos-auth-verifier');
+          expect(await result.json()).toEqual({
+            error: 'unauthorized',
+            error_description: 'Authentication required',
+          });
+        });
+
+        it('should keep redirecting page loads outside of API paths', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/dashboard'), { headers: { accept: 'text/html' } }),
+            false,
+            { enabled: true, unauthenticatedPaths: [], apiPaths: ['/api/:path*'] },
+            redirectUri,
+            [],
+          );
+
+          expect(result.status).toBe(307);
+        });
+
+        it('should respond with 401 to non-document requests in auto mode', async () => {
+          const middlewareAuth = { enabled: true, unauthenticatedPaths: [], unauthenticatedResponse: 'auto' as const };
+
+          const fetchResult = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/dashboard/data'), { headers: { accept: 'application/json' } }),
+            false,
+            middlewareAuth,
+            redirectUri,
+            [],
+          );
+          const pageResult = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/dashboard'), { headers: { accept: 'text/html' } }),
+            false,
+            middlewareAuth,
+            redirectUri,
+            [],
+          );
+
+          expect(fetchResult.status).toBe(401);
+          expect(pageResult.status).toBe(307);
+        });
+
+        it('should keep redirecting Next.js router requests in auto mode', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/dashboard'), { headers: { RSC: '1', accept: '*/*' } }),
+            false,
+            { enabled: true, unauthenticatedPaths: [], unauthenticatedResponse: 'auto' },
+            redirectUri,
+            [],
+          );
+
+          expect(result.status).toBe(307);
+        });
+
+        it('should redirect non-document requests by default', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/dashboard/data'), { headers: { accept: 'application/json' } }),
+            false,
+            { enabled: true, unauthenticatedPaths: [] },
+            redirectUri,
+            [],
+          );
+
+          expect(result.status).toBe(307);
+        });
+
+        it('should respond with 401 to signed-out API requests on paths with access rules', async () => {
+          const result = await updateSessionMiddleware(
+            new NextRequest(new URL('http://example.com/api/admin')),
+            false,
+            {
+              enabled: false,
+              unauthenticatedPaths: [],
+              apiPaths: ['/api/:path*'],
+              rules: [{ matcher: ['/api/admin'], roles: ['admin'] }],
+            },
+            redirectUri,
+            [],
+          );
+
+          expect(result.status).toBe(401);
+        });
+      });
+
       describe('sign up paths', () => {
         it('should redirect to sign up when unauthenticated user is on a sign up path', async () => {
           const request = new NextRequest(new URL('http://example.com/signup'));
@@ -728,10 +1017,10 @@ describe('session.ts', () => {
           expect(result.headers.get('Location')).toContain('screen_hint=sign-up');
         });
 
-        it('should accept a sign up path as a string', async () => {
+        it('should use the screen hint recorded by the middleware', async () => {
           const nextHeaders = await headers();
           nextHeaders.set('x-url', 'http://example.com/signup');
-          nextHeaders.set('x-sign-up-paths', '/signup');
+          nextHeaders.set('x-workos-screen-hint', 'sign-up');
 
           await withAuth({ ensureSignedIn: true });
           expect(redirect).toHaveBeenCalledTimes(1);
@@ -760,7 +1049,7 @@ describe('session.ts', () => {
           .headers.getSetCookie()
           .some((c) => c.includes('wos-auth-verifier')),
       ).toBe(false);
-      expect(console.log).toHaveBeenCalledWith('No session found from cookie');
+      expect(console.log).toHaveBeenCalledWith('No session found from cookie', { path: '/protected' });
     });
 
     it('should return a session if the session is valid', async () => {
@@ -775,6 +1064,12 @@ describe('session.ts', () => {
       expect(result.session).toBeDefined();
     });
 
+    it('should record the request host for server components', async () => {
+      const result = await updateSession(new NextRequest(new URL('https://brand.example.com/protected')));
+
+      expect(result.headers.get('x-workos-host')).toBe('brand.example.com');
+    });
+
     it('should attempt to refresh an invalid session', async () => {
       // Setup invalid session
       mockSession.accessToken = await generateTestToken({}, true);
@@ -805,6 +1100,7 @@ describe('session.ts', () => {
       expect(response.session.user).toBeDefined();
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Session invalid. Refreshing access token that ends in'),
+        expect.anything(),
       );
     });
 
@@ -832,7 +1128,10 @@ describe('session.ts', () => {
 
       expect(response.session.user).toBeNull();
       expect(response.authorizationUrl).toBeDefined();
-      expect(console.log).toHaveBeenCalledWith('Failed to refresh. Deleting cookie.', expect.any(Error));
+      expect(console.log).toHaveBeenCalledWith(
+        'Failed to refresh. Deleting cookie.',
+        expect.objectContaining({ error: expect.objectContaining({ name: 'Error' }) }),
+      );
     });
 
     describe('PKCE cookie cleanup', () => {
@@ -1045,21 +1344,12 @@ describe('session.ts', () => {
 
         return await new SignJWT({ sid: 'session_123', org_id: 'org_123' })
           .setProtectedHeader({ alg: 'HS256' })
+          .setIssuer(`https://api.workos.com/user_management/${process.env.WORKOS_CLIENT_ID}`)
           .setIssuedAt(now - (lifetimeSeconds - secondsUntilExpiry))
           .setExpirationTime(now + secondsUntilExpiry)
           .sign(secret);
       }
 
-      async function requestWithSessionToken(accessToken: string) {
-        const request = new NextRequest(new URL('http://example.com/protected'));
-        request.cookies.set(
-          'wos-session',
-          await sealData({ ...mockSession, accessToken }, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
-        );
-
-        return request;
-      }
-
       it('should refresh a valid session that is within the refresh buffer', async () => {
         const newAccessToken = await generateTestToken();
         const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
@@ -1068,7 +1358,7 @@ describe('session.ts', () => {
           user: mockSession.user,
         });
 
-        const request = await requestWithSessionToken(await generateTokenWithExpiry(30));
+        const request = await requestWithSession({ accessToken: await generateTokenWithExpiry(30) });
         const response = await updateSession(request, { debug: true });
 
         expect(refreshSpy).toHaveBeenCalledTimes(1);
@@ -1077,14 +1367,78 @@ describe('session.ts', () => {
         expect(response.headers.getSetCookie().some((c) => c.startsWith('wos-session=') && c.length > 20)).toBe(true);
         expect(console.log).toHaveBeenCalledWith(
           expect.stringContaining('Session expiring soon. Proactively refreshing access token that ends in'),
+          expect.anything(),
         );
       });
 
+      it('should trace a proactive refresh', async () => {
+        const spans = registerTestTracer();
+        vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+          accessToken: await generateTestToken(),
+          refreshToken: 'new-refresh-token',
+          user: mockSession.user,
+          organizationId: 'org_123',
+        });
+
+        try {
+          await updateSession(await requestWithSession({ accessToken: await generateTokenWithExpiry(30) }));
+        } finally {
+          trace.disable();
+        }
+
+        expect(spans.find((span) => span.name === 'authkit.refresh_session')).toMatchObject({
+          attributes: { 'authkit.refresh.proactive': true, 'authkit.organization_id': 'org_123' },
+          ended: true,
+        });
+      });
+
+      it('should trace whether a failed refresh was transient', async () => {
+        const spans = registerTestTracer();
+        vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+          Object.assign(new Error('Service unavailable'), { status: 503 }),
+        );
+
+        try {
+          await updateSession(await requestWithSession({ accessToken: await generateTokenWithExpiry(30) }));
+        } finally {
+          trace.disable();
+        }
+
+        expect(spans.find((span) => span.name === 'authkit.refresh_session')).toMatchObject({
+          attributes: { 'authkit.refresh.proactive': true, 'authkit.refresh.failure': 'transient' },
+          status: { code: SpanStatusCode.ERROR },
+        });
+      });
+
+      it('should give concurrent requests carrying the same cookie the same refreshed session', async () => {
+        const newAccessToken = await generateTestToken();
+        const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+          accessToken: newAccessToken,
+          refreshToken: 'new-refresh-token',
+          user: mockSession.user,
+        });
+
+        const accessToken = await generateTokenWithExpiry(30);
+        const [first, second] = await Promise.all([
+          updateSession(await requestWithSession({ accessToken })),
+          updateSession(await requestWithSession({ accessToken })),
+        ]);
+        // A request that arrives just after the rotation, still carrying the old cookie
+        const third = await updateSession(await requestWithSession({ accessToken }));
+
+        expect(refreshSpy).toHaveBeenCalledTimes(1);
+        expect([first, second, third].map(({ session }) => session.accessToken)).toEqual([
+          newAccessToken,
+          newAccessToken,
+          newAccessToken,
+        ]);
+      });
+
       it('should not refresh a valid session outside the refresh buffer', async () => {
         const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken');
 
         const accessToken = await generateTokenWithExpiry(300);
-        const request = await requestWithSessionToken(accessToken);
+        const request = await requestWithSession({ accessToken });
         const response = await updateSession(request);
 
         expect(refreshSpy).not.toHaveBeenCalled();
@@ -1099,11 +1453,11 @@ describe('session.ts', () => {
         });
 
         // 45 seconds left on a 5 minute token: outside the 30 second buffer
-        await updateSession(await requestWithSessionToken(await generateTokenWithExpiry(45, 300)));
+        await updateSession(await requestWithSession({ accessToken: await generateTokenWithExpiry(45, 300) }));
         expect(refreshSpy).not.toHaveBeenCalled();
 
         // 20 seconds left on a 5 minute token: inside the 30 second buffer
-        await updateSession(await requestWithSessionToken(await generateTokenWithExpiry(20, 300)));
+        await updateSession(await requestWithSession({ accessToken: await generateTokenWithExpiry(20, 300) }));
         expect(refreshSpy).toHaveBeenCalledTimes(1);
       });
 
@@ -1115,7 +1469,7 @@ describe('session.ts', () => {
         });
 
         // 90 seconds left is outside the default 60 second buffer, but inside a 120 second one
-        const request = await requestWithSessionToken(await generateTokenWithExpiry(90));
+        const request = await requestWithSession({ accessToken: await generateTokenWithExpiry(90) });
         await updateSession(request, { refreshBufferSeconds: 120 });
 
         expect(refreshSpy).toHaveBeenCalledTimes(1);
@@ -1125,7 +1479,7 @@ describe('session.ts', () => {
         const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken');
 
         const accessToken = await generateTokenWithExpiry(5);
-        const request = await requestWithSessionToken(accessToken);
+        const request = await requestWithSession({ accessToken });
         const response = await updateSession(request, { refreshBufferSeconds: 0 });
 
         expect(refreshSpy).not.toHaveBeenCalled();
@@ -1137,7 +1491,7 @@ describe('session.ts', () => {
         vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(new Error('Refresh failed'));
 
         const accessToken = await generateTokenWithExpiry(30);
-        const request = await requestWithSessionToken(accessToken);
+        const request = await requestWithSession({ accessToken });
         const response = await updateSession(request, { debug: true, onSessionRefreshError: mockErrorCallback });
 
         expect(response.session.user).toBeDefined();
@@ -1148,14 +1502,14 @@ describe('session.ts', () => {
         expect(mockErrorCallback).not.toHaveBeenCalled();
         expect(console.log).toHaveBeenCalledWith(
           'Proactive refresh failed. Serving request with the still-valid access token.',
-          expect.any(Error),
+          expect.objectContaining({ error: expect.objectContaining({ name: 'Error' }) }),
         );
       });
 
       it('should delete the session when a proactive refresh fails and the token expired during the attempt', async () => {
         const mockErrorCallback = vi.fn();
         const accessToken = await generateTokenWithExpiry(30);
-        const request = await requestWithSessionToken(accessToken);
+        const request = await requestWithSession({ accessToken });
 
         vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockImplementation(async () => {
           // The token runs out while the refresh round trip is in flight
@@ -1171,7 +1525,10 @@ describe('session.ts', () => {
           expect(response.authorizationUrl).toBeDefined();
           expect(response.headers.getSetCookie().some((c) => c.startsWith('wos-session=;'))).toBe(true);
           expect(mockErrorCallback).toHaveBeenCalledTimes(1);
-          expect(console.log).toHaveBeenCalledWith('Failed to refresh. Deleting cookie.', expect.any(Error));
+          expect(console.log).toHaveBeenCalledWith(
+            'Failed to refresh. Deleting cookie.',
+            expect.objectContaining({ error: expect.objectContaining({ name: 'Error' }) }),
+          );
         } finally {
           vi.useRealTimers();
         }
@@ -1186,7 +1543,7 @@ describe('session.ts', () => {
           user: mockSession.user,
         });
 
-        const request = await requestWithSessionToken(await generateTokenWithExpiry(30));
+        const request = await requestWithSession({ accessToken: await generateTokenWithExpiry(30) });
         await updateSession(request, { onSessionRefreshSuccess: mockSuccessCallback });
 
         expect(mockSuccessCallback).toHaveBeenCalledTimes(1);
@@ -1203,7 +1560,7 @@ describe('session.ts', () => {
         });
 
         // 90 seconds left is outside the default 60 second buffer, but inside a 120 second one
-        const request = await requestWithSessionToken(await generateTokenWithExpiry(90));
+        const request = await requestWithSession({ accessToken: await generateTokenWithExpiry(90) });
         const result = await updateSessionMiddleware(
           request,
           false,
@@ -1285,6 +1642,29 @@ describe('session.ts', () => {
       expect(result.organizationId).toBe('org_456');
     });
 
+    it('should resolve the configuration from the host recorded by the middleware', async () => {
+      const brandPassword = 'a-cookie-password-for-the-brand-tenant';
+      const resolveConfig = vi.fn(() => ({ cookiePassword: brandPassword }));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-host', 'brand.example.com');
+      const nextCookies = await cookies();
+      nextCookies.set('wos-session', await sealData(mockSession, { password: brandPassword }));
+
+      const result = await refreshSession({ resolveConfig });
+
+      expect(resolveConfig).toHaveBeenCalledWith('brand.example.com');
+      expect(result.user).toEqual(mockSession.user);
+      expect(await unsealData(nextCookies.get('wos-session')!.value, { password: brandPassword })).toMatchObject({
+        refreshToken: 'new-refresh-token',
+      });
+    });
+
     it('throws if authenticateWithRefreshToken fails with string', async () => {
       const nextCookies = await cookies();
       // Create a mock session with a valid JWT that includes org_id
@@ -1316,65 +1696,1485 @@ describe('session.ts', () => {
     });
   });
 
-  describe('getTokenClaims', () => {
-    beforeEach(async () => {
-      const nextCookies = await cookies();
-      // @ts-expect-error - _reset is part of the mock
-      nextCookies._reset();
-      vi.clearAllMocks();
-    });
+  describe('cookie chunking', () => {
+    function largeUser(): User {
+      // Enough metadata to push the sealed session well past the browser's 4KB cookie limit
+      return { ...mockSession.user, metadata: { notes: 'x'.repeat(6000) } } as unknown as User;
+    }
 
-    it('should return all token claims when accessToken is provided', async () => {
-      const tokenPayload = {
-        sub: 'user_123',
-        org_id: 'org_123',
-        role: 'admin',
-        roles: ['admin'],
-        permissions: ['read', 'write'],
-        entitlements: ['feature_a'],
-        feature_flags: ['device-authorization-grant'],
-        department: 'engineering',
-        level: 5,
-        metadata: { theme: 'dark' },
-      };
-      const token = await generateTestToken(tokenPayload);
+    function setCookieNames(headers: Headers) {
+      return headers.getSetCookie().map((cookie) => cookie.slice(0, cookie.indexOf('=')));
+    }
 
-      const result = await getTokenClaims(token);
+    it('should read a session split across chunked cookies', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+      const accessToken = await generateTestToken();
+      const sealed = await sealData(
+        { accessToken, refreshToken: 'refresh_token_123', user: largeUser() },
+        { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+      );
 
-      expect(result).toMatchObject(tokenPayload);
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session.0', sealed.slice(0, 3800));
+      request.cookies.set('wos-session.1', sealed.slice(3800, 7600));
+      request.cookies.set('wos-session.2', sealed.slice(7600));
+
+      const result = await updateSession(request);
+
+      expect(result.session.accessToken).toBe(accessToken);
+      expect(result.headers.get('x-workos-session')).toBe(sealed);
     });
 
-    it('should return empty object when no accessToken is provided and no session exists', async () => {
-      const result = await getTokenClaims();
+    it('should chunk an oversized session and expire the stale unchunked cookie on refresh', async () => {
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: largeUser(),
+      });
 
-      expect(result).toEqual({});
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken({}, true) },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await updateSession(request);
+      const setCookies = result.headers.getSetCookie();
+
+      expect(setCookieNames(result.headers)).toEqual(
+        expect.arrayContaining(['wos-session.0', 'wos-session.1', 'wos-session']),
+      );
+      expect(setCookies.find((c) => c.startsWith('wos-session=;'))).toContain('Max-Age=0');
+      expect(setCookies.every((c) => c.length < 4096)).toBe(true);
     });
 
-    it('should return all standard claims when token has only standard claims', async () => {
-      const tokenPayload = {
-        sub: 'user_123',
-        org_id: 'org_123',
-        role: 'admin',
-        roles: ['admin'],
-        permissions: ['read', 'write'],
-        entitlements: ['feature_a'],
-        feature_flags: ['device-authorization-grant'],
-      };
-      const token = await generateTestToken(tokenPayload);
+    it('should expire leftover chunks when a refreshed session fits in a single cookie', async () => {
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
 
-      const result = await getTokenClaims(token);
+      const sealed = await sealData(
+        { accessToken: await generateTestToken({}, true), refreshToken: 'refresh_token_123', user: largeUser() },
+        { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+      );
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session.0', sealed.slice(0, 3800));
+      request.cookies.set('wos-session.1', sealed.slice(3800, 7600));
+      request.cookies.set('wos-session.2', sealed.slice(7600));
 
-      expect(result).toMatchObject(tokenPayload);
+      const result = await updateSession(request);
+      const setCookies = result.headers.getSetCookie();
+
+      expect(setCookies.find((c) => c.startsWith('wos-session=') && !c.startsWith('wos-session=;'))).toBeDefined();
+      for (const chunk of ['wos-session.0', 'wos-session.1', 'wos-session.2']) {
+        expect(setCookies).toContainEqual(
+          expect.stringMatching(new RegExp(`^${chunk.replace('.', '\\.')}=;.*Max-Age=0`)),
+        );
+      }
     });
 
-    it('should return all claims including standard JWT claims', async () => {
-      const customClaims = {
-        customField: 'value',
-        anotherCustom: 42,
-      };
-      const standardClaims = {
-        aud: 'audience',
-        sub: 'user_123',
+    it('should delete every chunk when a terminal refresh failure clears the session', async () => {
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('invalid_grant'), { status: 400 }),
+      );
+
+      const sealed = await sealData(
+        { accessToken: await generateTestToken({}, true), refreshToken: 'refresh_token_123', user: largeUser() },
+        { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+      );
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session.0', sealed.slice(0, 3800));
+      request.cookies.set('wos-session.1', sealed.slice(3800));
+
+      const result = await updateSession(request);
+
+      expect(setCookieNames(result.headers)).toEqual(
+        expect.arrayContaining(['wos-session', 'wos-session.0', 'wos-session.1']),
+      );
+      expect(
+        result.headers
+          .getSetCookie()
+          .filter((c) => c.startsWith('wos-session'))
+          .every((c) => c.includes('=;')),
+      ).toBe(true);
+    });
+
+    it('should chunk oversized sessions written by saveSession', async () => {
+      await saveSession(
+        { accessToken: await generateTestToken(), refreshToken: 'refresh_token_123', user: largeUser() },
+        'https://example.com',
+      );
+
+      const nextCookies = await cookies();
+      expect(nextCookies.get('wos-session')).toBeUndefined();
+      expect(nextCookies.get('wos-session.0')).toBeDefined();
+      expect(nextCookies.get('wos-session.1')).toBeDefined();
+
+      const session = await getSessionFromCookie();
+      expect(session?.user).toEqual(largeUser());
+    });
+  });
+
+  describe('cookie password rotation', () => {
+    const currentPassword = 'a-brand-new-cookie-password-of-32-chars';
+    const previousPassword = process.env.WORKOS_COOKIE_PASSWORD as string;
+
+    beforeEach(() => {
+      configureAuthKit({ cookiePasswords: { 1: previousPassword, 2: currentPassword } });
+    });
+
+    afterEach(() => {
+      configureAuthKit({ cookiePasswords: undefined });
+    });
+
+    it('should accept a session sealed with a previous password and re-seal it with the newest', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+      const accessToken = await generateTestToken();
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData({ ...mockSession, accessToken }, { password: previousPassword }),
+      );
+
+      const result = await updateSession(request);
+
+      expect(result.session.accessToken).toBe(accessToken);
+
+      const sessionCookie = result.headers.getSetCookie().find((c) => c.startsWith('wos-session='));
+      expect(sessionCookie).toMatch(/^wos-session=Fe26\.2\*2\*/);
+      expect(result.headers.get('x-workos-session')).toMatch(/^Fe26\.2\*2\*/);
+
+      // The re-sealed value can no longer be read with the previous password alone
+      const resealed = sessionCookie!.slice('wos-session='.length).split(';')[0];
+      expect(await unsealData(resealed, { password: previousPassword })).toEqual({});
+      expect(await unsealData(resealed, { password: { 2: currentPassword } })).toMatchObject({ accessToken });
+    });
+
+    it('should not re-seal a session already sealed with the newest password', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken() },
+          { password: { 1: previousPassword, 2: currentPassword } },
+        ),
+      );
+
+      const result = await updateSession(request);
+
+      expect(result.headers.getSetCookie().some((c) => c.startsWith('wos-session='))).toBe(false);
+    });
+
+    it('should seal new sessions with the newest password', async () => {
+      await saveSession(
+        { accessToken: await generateTestToken(), refreshToken: 'refresh_token_123', user: mockSession.user },
+        'https://example.com',
+      );
+
+      expect((await cookies()).get('wos-session')!.value).toMatch(/^Fe26\.2\*2\*/);
+    });
+
+    it('should accept PKCE state sealed with a previous password', async () => {
+      const sealedState = await sealData(
+        { nonce: 'nonce', codeVerifier: 'verifier', returnPathname: '/dashboard' },
+        { password: previousPassword },
+      );
+
+      expect(await getStateFromPKCECookieValue(sealedState)).toMatchObject({ returnPathname: '/dashboard' });
+    });
+  });
+
+  describe('session store', () => {
+    let store: SessionStore;
+
+    async function unsealCookie(value: string) {
+      return unsealData<Record<string, unknown>>(value, { password: process.env.WORKOS_COOKIE_PASSWORD as string });
+    }
+
+    async function storeSession(id: string, accessToken: string) {
+      await store.set(id, { accessToken, refreshToken: 'refresh_token_123', user: mockSession.user });
+      return sealData({ id }, { password: process.env.WORKOS_COOKIE_PASSWORD as string });
+    }
+
+    beforeEach(() => {
+      store = createMemorySessionStore();
+      configureAuthKit({ sessionStore: store });
+    });
+
+    afterEach(() => {
+      configureAuthKit({ sessionStore: undefined });
+    });
+
+    it('should only seal an opaque session id into the cookie when saving a session', async () => {
+      const accessToken = await generateTestToken();
+
+      await saveSession(
+        { accessToken, refreshToken: 'refresh_token_123', user: mockSession.user },
+        'https://example.com',
+      );
+
+      const cookie = (await cookies()).get('wos-session');
+      const payload = await unsealCookie(cookie!.value);
+
+      expect(payload).toEqual({ id: expect.any(String) });
+      expect(await store.get(payload.id as string)).toMatchObject({ accessToken, refreshToken: 'refresh_token_123' });
+    });
+
+    it('should drop the previously stored session when a new session is saved', async () => {
+      const nextCookies = await cookies();
+      nextCookies.set('wos-session', await storeSession('previous_id', await generateTestToken()));
+
+      await saveSession(
+        { accessToken: await generateTestToken(), refreshToken: 'refresh_token_456', user: mockSession.user },
+        'https://example.com',
+      );
+
+      const payload = await unsealCookie(nextCookies.get('wos-session')!.value);
+      expect(payload.id).not.toBe('previous_id');
+      expect(await store.get('previous_id')).toBeUndefined();
+    });
+
+    it('should resolve the session from the store and record activity', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+      const touch = vi.spyOn(store, 'touch');
+      const accessToken = await generateTestToken();
+      const cookieValue = await storeSession('session_id', accessToken);
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', cookieValue);
+
+      const result = await updateSession(request);
+
+      expect(result.session.user).toEqual(mockSession.user);
+      expect(result.session.accessToken).toBe(accessToken);
+      expect(result.headers.get('x-workos-session')).toBe(cookieValue);
+      expect(touch).toHaveBeenCalledWith('session_id');
+    });
+
+    it('should treat a session deleted from the store as signed out', async () => {
+      const cookieValue = await storeSession('session_id', await generateTestToken());
+      await store.delete('session_id');
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', cookieValue);
+
+      const result = await updateSession(request);
+
+      expect(result.session.user).toBeNull();
+      expect(result.authorizationUrl).toBeDefined();
+    });
+
+    it('should delete the cookie of a session missing from the store', async () => {
+      const events = createAuthKitEvents();
+      const listener = vi.fn();
+      events.on('session_invalid', listener);
+      configureAuthKit({ events });
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData({ id: 'revoked_id' }, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
+      );
+      request.cookies.set('wos-session.1', 'chunk');
+
+      try {
+        const result = await updateSession(request);
+
+        const setCookies = result.headers.getSetCookie();
+        expect(setCookies).toContainEqual(expect.stringMatching(/^wos-session=;.*Max-Age=0/));
+        expect(setCookies).toContainEqual(expect.stringMatching(/^wos-session\.1=;.*Max-Age=0/));
+      } finally {
+        configureAuthKit({ events: undefined });
+      }
+
+      expect(listener).toHaveBeenCalledWith({ type: 'session_invalid', reason: 'session_not_found' });
+    });
+
+    it('should write refreshed tokens to the same stored session', async () => {
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      const refreshedAccessToken = await generateTestToken();
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: refreshedAccessToken,
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', await storeSession('session_id', await generateTestToken({}, true)));
+
+      const result = await updateSession(request);
+
+      expect(result.session.accessToken).toBe(refreshedAccessToken);
+      expect(await store.get('session_id')).toMatchObject({
+        accessToken: refreshedAccessToken,
+        refreshToken: 'new-refresh-token',
+      });
+
+      const sessionCookie = result.headers.getSetCookie().find((c) => c.startsWith('wos-session='))!;
+      const payload = await unsealCookie(sessionCookie.slice('wos-session='.length).split(';')[0]);
+      expect(payload).toEqual({ id: 'session_id' });
+      expect(sessionCookie).not.toContain('new-refresh-token');
+    });
+
+    it('should resolve the session from the store in withAuth', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-session', await storeSession('session_id', await generateTestToken()));
+
+      const result = await withAuth();
+
+      expect(result.user).toEqual(mockSession.user);
+      expect(result.sessionId).toBe('session_123');
+    });
+
+    it('should keep the stored session id when refreshing with refreshSession', async () => {
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const nextCookies = await cookies();
+      nextCookies.set('wos-session', await storeSession('session_id', await generateTestToken()));
+
+      await refreshSession();
+
+      const payload = await unsealCookie(nextCookies.get('wos-session')!.value);
+      expect(payload).toEqual({ id: 'session_id' });
+      expect(await store.get('session_id')).toMatchObject({ refreshToken: 'new-refresh-token' });
+    });
+  });
+
+  describe('session payload versioning', () => {
+    it('should seal sessions with the current payload version', async () => {
+      await saveSession(
+        { accessToken: await generateTestToken(), refreshToken: 'refresh_token_123', user: mockSession.user },
+        'https://example.com',
+      );
+
+      const payload = await unsealData<Record<string, unknown>>((await cookies()).get('wos-session')!.value, {
+        password: process.env.WORKOS_COOKIE_PASSWORD as string,
+      });
+      expect(payload.v).toBe(1);
+    });
+
+    it('should accept an unversioned session sealed by an earlier release', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+      const accessToken = await generateTestToken();
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { accessToken, refreshToken: 'refresh-token', user: mockSession.user },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await updateSession(request);
+
+      expect(result.session.user).toEqual(mockSession.user);
+      expect(result.session.accessToken).toBe(accessToken);
+    });
+
+    it('should treat a session that does not match the schema as invalid', async () => {
+      const onInvalidSession = vi.fn();
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { v: 1, accessToken: await generateTestToken(), user: mockSession.user },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await updateSession(request, { onInvalidSession });
+
+      expect(result.session.user).toBeNull();
+      expect(onInvalidSession).toHaveBeenCalledWith({ error: expect.any(SessionDecryptionError), request });
+    });
+  });
+
+  describe('access rules', () => {
+    const redirectUri = process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string;
+
+    function runMiddleware(request: NextRequest, middlewareAuth: Partial<AuthkitMiddlewareAuth>) {
+      return updateSessionMiddleware(
+        request,
+        false,
+        { enabled: false, unauthenticatedPaths: [], ...middlewareAuth },
+        redirectUri,
+        [],
+      );
+    }
+
+    beforeEach(() => {
+      (jwtVerify as Mock).mockResolvedValue({});
+    });
+
+    it('should allow users that pass every matching rule', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/admin/users'), {
+        rules: [
+          { matcher: '/admin/:path*', permissions: ['posts:create'], roles: ['admin', 'member'] },
+          { matcher: ['/admin/users'], entitlements: ['audit-logs'] },
+        ],
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+    });
+
+    it('should respond with a 403 when a permission is missing', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/admin'), {
+        rules: [{ matcher: '/admin/:path*', permissions: ['posts:create', 'admin:read'] }],
+      });
+
+      expect(response.status).toBe(403);
+      expect(await response.text()).toBe('Forbidden');
+    });
+
+    it('should respond with a 403 when the user has none of the roles', async () => {
+      const response = await runMiddleware(
+        await requestWithSession(
+          { accessToken: await generateTestToken({ role: 'member', roles: ['member'] }) },
+          '/admin',
+        ),
+        {
+          rules: [{ matcher: '/admin', roles: ['owner', 'admin'] }],
+        },
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should respond with a 403 when an entitlement is missing', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/reports'), {
+        rules: [{ matcher: '/reports', entitlements: ['sso'] }],
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not apply rules to other paths', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/dashboard'), {
+        rules: [{ matcher: '/admin/:path*', permissions: ['admin:read'] }],
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should rewrite to forbiddenPath when a rule fails', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/admin'), {
+        rules: [{ matcher: '/admin', roles: ['owner'] }],
+        forbiddenPath: '/forbidden',
+      });
+
+      expect(response.headers.get('x-middleware-rewrite')).toBe('http://example.com/forbidden');
+      expect(response.headers.get('x-middleware-request-x-workos-session')).toBeTruthy();
+    });
+
+    it('should respond with the response from onForbidden when a rule fails', async () => {
+      const onForbidden = vi.fn(() => NextResponse.json({ error: 'forbidden' }, { status: 403 }));
+      const rule = { matcher: '/admin', roles: ['owner'] };
+      const request = await requestWithSession({}, '/admin');
+
+      const response = await runMiddleware(request, { rules: [rule], forbiddenPath: '/forbidden', onForbidden });
+
+      expect(onForbidden).toHaveBeenCalledWith({ request, rule });
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'forbidden' });
+    });
+
+    it('should redirect to re-authenticate when a maxAge rule is not met', async () => {
+      const request = await requestWithSession(
+        { accessToken: await generateTestToken({ auth_time: Math.floor(Date.now() / 1000) - 600 }) },
+        '/settings/billing',
+      );
+      request.headers.set('accept', 'text/html');
+      request.headers.set('sec-fetch-dest', 'document');
+
+      const response = await runMiddleware(request, {
+        rules: [
+          { matcher: '/settings/:path*', maxAge: 3600 },
+          { matcher: '/settings/billing', maxAge: 300 },
+        ],
+      });
+
+      expect(response.status).toBe(307);
+      const location = new URL(response.headers.get('location') as string);
+      expect(location.searchParams.get('max_age')).toBe('300');
+      expect(location.searchParams.get('screen_hint')).toBe('sign-in');
+      expect(location.searchParams.get('state')).toBeTruthy();
+      expect(response.headers.get('Set-Cookie')).toContain('wos-auth-verifier');
+    });
+
+    it('should allow users that authenticated within maxAge', async () => {
+      const response = await runMiddleware(
+        await requestWithSession(
+          { accessToken: await generateTestToken({ auth_time: Math.floor(Date.now() / 1000) - 60 }) },
+          '/settings/billing',
+        ),
+        { rules: [{ matcher: '/settings/billing', maxAge: 300 }] },
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should respond to API requests with a step-up challenge when a maxAge rule is not met', async () => {
+      const response = await runMiddleware(await requestWithSession({}, '/api/billing'), {
+        rules: [{ matcher: '/api/billing', maxAge: 300 }],
+        apiPaths: ['/api/:path*'],
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe(
+        'Bearer error="insufficient_user_authentication", max_age=300',
+      );
+      expect(await response.json()).toEqual({
+        error: 'insufficient_user_authentication',
+        error_description: 'A more recent authentication is required',
+        max_age: 300,
+      });
+    });
+
+    it('should apply the AuthKit headers to a redirect returned by onForbidden', async () => {
+      const onForbidden = vi.fn(() => Response.redirect('http://example.com/upgrade', 307));
+
+      const response = await runMiddleware(await requestWithSession({}, '/admin'), {
+        rules: [{ matcher: '/admin', roles: ['owner'] }],
+        onForbidden,
+      });
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toBe('http://example.com/upgrade');
+      expect(response.headers.get('Cache-Control')).toContain('no-store');
+    });
+
+    it('should redirect signed-out users on paths with rules to sign in', async () => {
+      const response = await runMiddleware(new NextRequest(new URL('http://example.com/admin')), {
+        rules: [{ matcher: '/admin', roles: ['owner'] }],
+      });
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toContain('workos.com');
+    });
+  });
+
+  describe('jwks option', () => {
+    it('should verify the access token with the configured key source', async () => {
+      const getKey = vi.fn();
+      (jwtVerify as Mock).mockResolvedValue({});
+      const accessToken = await generateTestToken();
+      const request = new NextRequest(new URL('http://example.com'));
+      request.cookies.set(
+        'wos-session',
+        await sealData({ ...mockSession, accessToken }, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
+      );
+
+      const result = await updateSession(request, { jwks: getKey });
+
+      expect(jwtVerify).toHaveBeenCalledWith(accessToken, getKey, expect.anything());
+      expect(result.session.user).toEqual(mockSession.user);
+    });
+  });
+
+  describe('stale sessions', () => {
+    const expiredTokenError = Object.assign(new Error('"exp" claim timestamp check failed'), {
+      code: 'ERR_JWT_EXPIRED',
+    });
+
+    let expiredAccessToken: string;
+
+    beforeEach(async () => {
+      (jwtVerify as Mock).mockRejectedValue(expiredTokenError);
+      expiredAccessToken = await generateTestToken({}, true);
+    });
+
+    it('should serve a recently expired session when refreshing fails transiently', async () => {
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+
+      const result = await updateSession(await requestWithSession({ accessToken: expiredAccessToken }), {
+        maxStaleSeconds: 300,
+      });
+
+      expect(result.session).toMatchObject({ user: mockSession.user, sessionId: 'session_123', stale: true });
+      expect(result.authorizationUrl).toBeUndefined();
+      expect(result.headers.get('x-workos-session')).not.toBeNull();
+    });
+
+    it('should serve a session whose expired token still verified within the clock tolerance', async () => {
+      (jwtVerify as Mock).mockResolvedValue({});
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+
+      const result = await updateSession(await requestWithSession({ accessToken: expiredAccessToken }), {
+        maxStaleSeconds: 300,
+      });
+
+      expect(result.session).toMatchObject({ user: mockSession.user, stale: true });
+      expect(result.authorizationUrl).toBeUndefined();
+    });
+
+    it('should sign out when the session expired longer ago than maxStaleSeconds', async () => {
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+
+      const result = await updateSession(await requestWithSession({ accessToken: expiredAccessToken }));
+
+      expect(result.session.user).toBeNull();
+      expect(result.authorizationUrl).toBeDefined();
+    });
+
+    it('should sign out when refreshing fails terminally', async () => {
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('invalid_grant'), { status: 400 }),
+      );
+
+      const result = await updateSession(await requestWithSession({ accessToken: expiredAccessToken }), {
+        maxStaleSeconds: 300,
+      });
+
+      expect(result.session.user).toBeNull();
+    });
+
+    it('should not serve a session whose token failed verification for another reason', async () => {
+      (jwtVerify as Mock).mockRejectedValue(
+        Object.assign(new Error('signature verification failed'), { code: 'ERR_JWS_SIGNATURE_VERIFICATION_FAILED' }),
+      );
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+
+      const result = await updateSession(await requestWithSession({ accessToken: expiredAccessToken }), {
+        maxStaleSeconds: 300,
+      });
+
+      expect(result.session.user).toBeNull();
+    });
+
+    it('should not serve an unexpired session whose token failed verification with the default maxStaleSeconds', async () => {
+      (jwtVerify as Mock).mockRejectedValue(
+        Object.assign(new Error('request timed out'), { code: 'ERR_JWKS_TIMEOUT' }),
+      );
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken() },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await updateSession(request);
+
+      expect(result.session.user).toBeNull();
+      expect(result.session).not.toHaveProperty('stale');
+      expect(result.authorizationUrl).toBeDefined();
+    });
+
+    it('should flag a stale session in withAuth', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set(
+        'x-workos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken({}, true) },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await withAuth();
+
+      expect(result).toMatchObject({ user: mockSession.user, stale: true });
+    });
+  });
+
+  describe('events', () => {
+    const events = createAuthKitEvents();
+    const listener = vi.fn();
+    events.on('*', listener);
+
+    beforeEach(() => {
+      configureAuthKit({ events });
+    });
+
+    afterEach(() => {
+      configureAuthKit({ events: undefined });
+    });
+
+    it('should emit session_invalid when the session cookie cannot be unsealed', async () => {
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', 'not-a-sealed-session');
+
+      await updateSession(request);
+
+      expect(listener).toHaveBeenCalledWith({ type: 'session_invalid', reason: 'decryption_failed' });
+    });
+
+    it('should emit refresh_failed with whether the failure was transient', async () => {
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockRejectedValue(
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+      );
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken({}, true) },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      await updateSession(request);
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'refresh_failed',
+        userId: 'user_123',
+        sessionId: 'session_123',
+        error: expect.objectContaining({ status: 503 }),
+        isTransient: true,
+      });
+    });
+
+    it('should emit session_refreshed and organization_switched when refreshing into another organization', async () => {
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken({ org_id: 'org_456' }),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const nextCookies = await cookies();
+      nextCookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken() },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      await refreshSession({ organizationId: 'org_456' });
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'session_refreshed',
+        user: mockSession.user,
+        sessionId: 'session_123',
+        organizationId: 'org_456',
+        proactive: false,
+      });
+      expect(listener).toHaveBeenCalledWith({
+        type: 'organization_switched',
+        userId: 'user_123',
+        sessionId: 'session_123',
+        organizationId: 'org_456',
+        previousOrganizationId: 'org_123',
+      });
+    });
+  });
+
+  describe('access token validation', () => {
+    beforeEach(() => {
+      (jwtVerify as Mock).mockResolvedValue({});
+    });
+
+    it('should sign out without refreshing a session whose token was issued for another client', async () => {
+      const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken');
+      const accessToken = await generateTestToken({ iss: 'https://api.workos.com/user_management/client_other' });
+
+      const result = await updateSession(await requestWithSession({ accessToken }), { debug: true });
+
+      expect(refreshSpy).not.toHaveBeenCalled();
+      expect(result.session.user).toBeNull();
+      expect(result.authorizationUrl).toBeDefined();
+      expect(result.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+      expect(console.log).toHaveBeenCalledWith(
+        'Access token rejected (invalid_audience). Deleting cookie.',
+        expect.objectContaining({ reason: 'invalid_audience' }),
+      );
+    });
+
+    it('should sign out without refreshing a session whose token was issued by another host', async () => {
+      const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken');
+      const accessToken = await generateTestToken({ iss: 'https://auth.example.com' });
+
+      const result = await updateSession(await requestWithSession({ accessToken }));
+
+      expect(refreshSpy).not.toHaveBeenCalled();
+      expect(result.session.user).toBeNull();
+    });
+
+    it('should accept tokens matching the configured validation options', async () => {
+      const accessToken = await generateTestToken({ iss: 'https://auth.example.com', aud: 'client_other' });
+
+      const result = await updateSession(await requestWithSession({ accessToken }), {
+        accessTokenValidation: { issuer: 'https://auth.example.com', audience: 'client_other' },
+      });
+
+      expect(result.session.user).toEqual(mockSession.user);
+    });
+
+    it('should refresh a session whose token has expired', async () => {
+      const error = Object.assign(new Error('"exp" claim timestamp check failed'), { code: 'ERR_JWT_EXPIRED' });
+      (jwtVerify as Mock).mockRejectedValue(error);
+      const refreshSpy = vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const result = await updateSession(await requestWithSession({ accessToken: await generateTestToken({}, true) }));
+
+      expect(refreshSpy).toHaveBeenCalledTimes(1);
+      expect(result.session.user).toEqual(mockSession.user);
+    });
+  });
+
+  describe('bearer authentication', () => {
+    async function requestWithBearerToken(accessToken: string) {
+      return new NextRequest(new URL('http://example.com/api/projects'), {
+        headers: { authorization: `Bearer ${accessToken}` },
+      });
+    }
+
+    beforeEach(() => {
+      (jwtVerify as Mock).mockResolvedValue({});
+    });
+
+    it('should authenticate requests with a valid bearer token when enabled', async () => {
+      const accessToken = await generateTestToken();
+
+      const result = await updateSession(await requestWithBearerToken(accessToken), { bearerAuth: true });
+
+      expect(result.session).toEqual({
+        authenticatedWith: 'bearer',
+        sessionId: 'session_123',
+        user: { id: 'user_123' },
+        organizationId: 'org_123',
+        role: 'member',
+        roles: ['member'],
+        permissions: ['posts:create', 'posts:delete'],
+        entitlements: ['audit-logs'],
+        featureFlags: ['device-authorization-grant'],
+        accessToken,
+      });
+      const forwarded = result.headers.get('x-workos-bearer-token')!;
+      expect(await unsealData(forwarded, { password: process.env.WORKOS_COOKIE_PASSWORD as string })).toEqual({
+        accessToken,
+      });
+      expect(result.headers.get('x-workos-session')).toBeNull();
+      expect(result.headers.get('Vary')).toBe('Cookie, Authorization');
+    });
+
+    it('should ignore bearer tokens by default', async () => {
+      const result = await updateSession(await requestWithBearerToken(await generateTestToken()));
+
+      expect(result.session.user).toBeNull();
+      expect(jwtVerify).not.toHaveBeenCalled();
+    });
+
+    it('should treat requests with an invalid bearer token as signed out', async () => {
+      (jwtVerify as Mock).mockRejectedValue(Object.assign(new Error('expired'), { code: 'ERR_JWT_EXPIRED' }));
+
+      const result = await updateSession(await requestWithBearerToken(await generateTestToken({}, true)), {
+        bearerAuth: true,
+        debug: true,
+      });
+
+      expect(result.session.user).toBeNull();
+      expect(result.headers.get('x-workos-bearer-token')).toBeNull();
+      expect(console.log).toHaveBeenCalledWith(
+        'Bearer token rejected (expired).',
+        expect.objectContaining({ reason: 'expired' }),
+      );
+    });
+
+    it('should reject bearer tokens issued for another client', async () => {
+      const accessToken = await generateTestToken({ iss: 'https://api.workos.com/user_management/client_other' });
+
+      const result = await updateSession(await requestWithBearerToken(accessToken), { bearerAuth: true });
+
+      expect(result.session.user).toBeNull();
+    });
+
+    it('should prefer the session cookie over a bearer token', async () => {
+      const request = await requestWithBearerToken(await generateTestToken({ sub: 'user_other' }));
+      request.cookies.set(
+        'wos-session',
+        await sealData(
+          { ...mockSession, accessToken: await generateTestToken() },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      const result = await updateSession(request, { bearerAuth: true });
+
+      expect(result.session.user).toEqual(mockSession.user);
+      expect(result.headers.get('x-workos-bearer-token')).toBeNull();
+    });
+
+    it('should let bearer-authenticated requests through protected paths', async () => {
+      const result = await updateSessionMiddleware(
+        await requestWithBearerToken(await generateTestToken()),
+        false,
+        { enabled: true, unauthenticatedPaths: [] },
+        process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string,
+        [],
+        false,
+        undefined,
+        { bearerAuth: true },
+      );
+
+      expect(result.headers.get('x-middleware-next')).toBe('1');
+      expect(result.headers.get('x-middleware-request-x-workos-bearer-token')).toBeTruthy();
+    });
+
+    describe('withAuth', () => {
+      async function forwardBearerToken(accessToken: string) {
+        const nextHeaders = await headers();
+        nextHeaders.set('x-workos-middleware', 'true');
+        nextHeaders.set(
+          'x-workos-bearer-token',
+          await sealData({ accessToken }, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
+        );
+      }
+
+      it('should return the bearer session when allowed', async () => {
+        const accessToken = await generateTestToken();
+        await forwardBearerToken(accessToken);
+
+        const result = await withAuth({ allowBearer: true, ensureSignedIn: true });
+
+        expect(result).toMatchObject({ authenticatedWith: 'bearer', user: { id: 'user_123' }, accessToken });
+      });
+
+      it('should treat bearer sessions as signed out unless allowed', async () => {
+        await forwardBearerToken(await generateTestToken());
+
+        const result = await withAuth();
+
+        expect(result.user).toBeNull();
+      });
+
+      it('should reject a bearer token header set by the client', async () => {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const forgedToken = `${encode({ alg: 'none' })}.${encode({ sub: 'user_forged' })}.`;
+        const nextHeaders = await headers();
+        nextHeaders.set('x-workos-middleware', 'true');
+        nextHeaders.set('x-workos-bearer-token', forgedToken);
+
+        const result = await withAuth({ allowBearer: true });
+
+        expect(result.user).toBeNull();
+      });
+    });
+  });
+
+  describe('API key authentication', () => {
+    const redirectUri = process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string;
+    const apiKey = {
+      id: 'api_key_123',
+      object: 'api_key' as const,
+      name: 'Déploiement CI',
+      obfuscatedValue: 'sk_…7890',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      lastUsedAt: null,
+      permissions: ['projects:read'],
+      owner: { type: 'organization' as const, id: 'org_123' },
+    };
+
+    function runMiddleware(path: string, key: string, middlewareAuth: AuthkitMiddlewareAuth) {
+      return updateSessionMiddleware(
+        new NextRequest(new URL(path, 'http://example.com'), { headers: { authorization: `Bearer ${key}` } }),
+        false,
+        middlewareAuth,
+        redirectUri,
+        [],
+        false,
+        undefined,
+        { apiKeyAuth: { paths: ['/api/:path*'] } },
+      );
+    }
+
+    beforeEach(() => {
+      vi.spyOn(workos.apiKeys, 'createValidation').mockImplementation(async ({ value }) => ({
+        apiKey: value.startsWith('sk_valid') ? apiKey : null,
+      }));
+    });
+
+    it('should let requests with a valid API key through protected API paths', async () => {
+      const result = await runMiddleware('/api/projects', 'sk_valid_1', { enabled: true, unauthenticatedPaths: [] });
+
+      expect(result.headers.get('x-middleware-next')).toBe('1');
+
+      const forwarded = result.headers.get('x-middleware-request-x-workos-api-key')!;
+      expect(await unsealData(forwarded, { password: process.env.WORKOS_COOKIE_PASSWORD as string })).toEqual({
+        type: 'api_key',
+        apiKeyId: 'api_key_123',
+        name: 'Déploiement CI',
+        organizationId: 'org_123',
+        permissions: ['projects:read'],
+      });
+    });
+
+    it('should treat requests with an invalid API key as signed out', async () => {
+      const result = await runMiddleware('/api/projects', 'sk_invalid_1', {
+        enabled: true,
+        unauthenticatedPaths: [],
+        apiPaths: ['/api/:path*'],
+      });
+
+      expect(result.status).toBe(401);
+    });
+
+    it('should treat requests as unauthenticated when the API key cannot be validated', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(workos.apiKeys.createValidation).mockRejectedValue(new Error('Service Unavailable'));
+
+      const result = await runMiddleware('/api/projects', 'sk_valid_outage', {
+        enabled: true,
+        unauthenticatedPaths: [],
+        apiPaths: ['/api/:path*'],
+      });
+
+      expect(result.status).toBe(401);
+      expect(errorSpy).toHaveBeenCalledWith('Failed to validate API key', {
+        path: '/api/projects',
+        error: expect.objectContaining({ message: 'Service Unavailable' }),
+      });
+    });
+
+    it('should not accept API keys outside of their paths', async () => {
+      const result = await runMiddleware('/dashboard', 'sk_valid_2', { enabled: true, unauthenticatedPaths: [] });
+
+      expect(result.status).toBe(307);
+      expect(workos.apiKeys.createValidation).not.toHaveBeenCalled();
+    });
+
+    it('should check access rule permissions against the API key', async () => {
+      const middlewareAuth = {
+        enabled: true,
+        unauthenticatedPaths: [],
+        rules: [
+          { matcher: '/api/projects', permissions: ['projects:read'] },
+          { matcher: '/api/billing', permissions: ['billing:read'] },
+        ],
+      };
+
+      const allowed = await runMiddleware('/api/projects', 'sk_valid_3', middlewareAuth);
+      const forbidden = await runMiddleware('/api/billing', 'sk_valid_3', middlewareAuth);
+
+      expect(allowed.headers.get('x-middleware-next')).toBe('1');
+      expect(forbidden.status).toBe(403);
+    });
+
+    it('should read the API key forwarded by the proxy/middleware', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set(
+        'x-workos-api-key',
+        await sealData(
+          { type: 'api_key', apiKeyId: 'api_key_123', name: 'Déploiement CI' },
+          { password: process.env.WORKOS_COOKIE_PASSWORD as string },
+        ),
+      );
+
+      expect(await getApiKeyPrincipalFromHeader()).toMatchObject({ apiKeyId: 'api_key_123', name: 'Déploiement CI' });
+    });
+
+    it('should reject an API key header set by the client', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-middleware', 'true');
+      nextHeaders.set(
+        'x-workos-api-key',
+        encodeURIComponent(
+          JSON.stringify({ type: 'api_key', apiKeyId: 'api_key_forged', organizationId: 'org_other', permissions: [] }),
+        ),
+      );
+
+      expect(await getApiKeyPrincipalFromHeader()).toBeUndefined();
+    });
+  });
+
+  describe('session lifetime limits', () => {
+    const password = process.env.WORKOS_COOKIE_PASSWORD as string;
+    const minutes = 60 * 1000;
+
+    function getSealedSessionCookie(headers: Headers) {
+      const cookie = headers.getSetCookie().find((c) => c.startsWith('wos-session='));
+      return cookie?.slice('wos-session='.length).split(';')[0];
+    }
+
+    beforeEach(() => {
+      (jwtVerify as Mock).mockResolvedValue({});
+    });
+
+    it('should end a session older than maxSessionAgeSeconds', async () => {
+      const onSessionExpired = vi.fn();
+      const request = await requestWithSession({ signedInAt: Date.now() - 61 * minutes });
+
+      const result = await updateSession(request, { maxSessionAgeSeconds: 60 * 60, onSessionExpired });
+
+      expect(result.session.user).toBeNull();
+      expect(result.authorizationUrl).toBeDefined();
+      expect(result.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+      expect(onSessionExpired).toHaveBeenCalledWith({ reason: 'max_session_age', request });
+    });
+
+    it('should end a session idle for longer than idleTimeoutSeconds', async () => {
+      const onSessionExpired = vi.fn();
+      const request = await requestWithSession({ signedInAt: Date.now(), lastActiveAt: Date.now() - 31 * minutes });
+
+      const result = await updateSession(request, { idleTimeoutSeconds: 30 * 60, onSessionExpired });
+
+      expect(result.session.user).toBeNull();
+      expect(onSessionExpired).toHaveBeenCalledWith({ reason: 'idle_timeout', request });
+    });
+
+    it('should keep a session within both limits', async () => {
+      const onSessionExpired = vi.fn();
+      const request = await requestWithSession({ signedInAt: Date.now() - 10 * minutes, lastActiveAt: Date.now() });
+
+      const result = await updateSession(request, {
+        maxSessionAgeSeconds: 60 * 60,
+        idleTimeoutSeconds: 30 * 60,
+        onSessionExpired,
+      });
+
+      expect(result.session.user).toEqual(mockSession.user);
+      expect(onSessionExpired).not.toHaveBeenCalled();
+      expect(getSealedSessionCookie(result.headers)).toBeUndefined();
+    });
+
+    it('should record activity at most once a minute', async () => {
+      const lastActiveAt = Date.now() - 5 * minutes;
+      const request = await requestWithSession({ signedInAt: lastActiveAt, lastActiveAt });
+
+      const result = await updateSession(request, { idleTimeoutSeconds: 30 * 60 });
+
+      const payload = await unsealData<Record<string, number>>(getSealedSessionCookie(result.headers)!, { password });
+      expect(payload.lastActiveAt).toBeGreaterThan(lastActiveAt);
+      expect(payload.signedInAt).toBe(lastActiveAt);
+      expect(result.headers.get('x-workos-session')).toBe(getSealedSessionCookie(result.headers));
+    });
+
+    it('should start counting from now for sessions sealed without a sign-in time', async () => {
+      const request = await requestWithSession({});
+
+      const result = await updateSession(request, { maxSessionAgeSeconds: 60 * 60 });
+
+      const payload = await unsealData<Record<string, number>>(getSealedSessionCookie(result.headers)!, { password });
+      expect(payload.signedInAt).toBeGreaterThan(Date.now() - minutes);
+    });
+
+    it('should carry the sign-in time over when the session is refreshed', async () => {
+      const signedInAt = Date.now() - 10 * minutes;
+      (jwtVerify as Mock).mockRejectedValue(new Error('Invalid token'));
+      vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+        accessToken: await generateTestToken(),
+        refreshToken: 'new-refresh-token',
+        user: mockSession.user,
+      });
+
+      const result = await updateSession(await requestWithSession({ signedInAt }), { maxSessionAgeSeconds: 60 * 60 });
+
+      const payload = await unsealData<Record<string, number>>(getSealedSessionCookie(result.headers)!, { password });
+      expect(payload.signedInAt).toBe(signedInAt);
+    });
+
+    it('should record the sign-in time when saving a session', async () => {
+      await saveSession(
+        { accessToken: await generateTestToken(), refreshToken: 'refresh_token_123', user: mockSession.user },
+        'https://example.com',
+      );
+
+      const payload = await unsealData<Record<string, number>>((await cookies()).get('wos-session')!.value, {
+        password,
+      });
+      expect(payload.signedInAt).toBeGreaterThan(Date.now() - minutes);
+      expect(payload.lastActiveAt).toBe(payload.signedInAt);
+    });
+
+    it('should delete an expired session from the session store', async () => {
+      const store = createMemorySessionStore();
+      configureAuthKit({ sessionStore: store });
+
+      try {
+        await store.set('session_id', {
+          ...mockSession,
+          accessToken: await generateTestToken(),
+          signedInAt: Date.now() - 61 * minutes,
+        });
+        const request = new NextRequest(new URL('http://example.com/protected'));
+        request.cookies.set('wos-session', await sealData({ id: 'session_id' }, { password }));
+
+        const result = await updateSession(request, { maxSessionAgeSeconds: 60 * 60 });
+
+        expect(result.session.user).toBeNull();
+        expect(await store.get('session_id')).toBeUndefined();
+      } finally {
+        configureAuthKit({ sessionStore: undefined });
+      }
+    });
+
+    describe('refreshSession', () => {
+      // Forwards the limits the way the proxy/middleware does for the request
+      async function forwardSessionLimits(limits: { maxSessionAgeSeconds?: number; idleTimeoutSeconds?: number }) {
+        const result = await updateSession(new NextRequest(new URL('http://example.com/protected')), limits);
+        (await headers()).set('x-workos-session-limits', result.headers.get('x-workos-session-limits')!);
+      }
+
+      async function setSessionCookie(session: Record<string, unknown>) {
+        (await cookies()).set(
+          'wos-session',
+          await sealData({ ...mockSession, accessToken: await generateTestToken(), ...session }, { password }),
+        );
+      }
+
+      beforeEach(async () => {
+        vi.spyOn(workos.userManagement, 'authenticateWithRefreshToken').mockResolvedValue({
+          accessToken: await generateTestToken(),
+          refreshToken: 'new-refresh-token',
+          user: mockSession.user,
+        });
+      });
+
+      it('should not refresh a session older than maxSessionAgeSeconds', async () => {
+        await forwardSessionLimits({ maxSessionAgeSeconds: 60 * 60 });
+        await setSessionCookie({ signedInAt: Date.now() - 61 * minutes });
+
+        const result = await refreshSession();
+
+        expect(result).toEqual({ user: null });
+        expect(workos.userManagement.authenticateWithRefreshToken).not.toHaveBeenCalled();
+        expect((await cookies()).get('wos-session')?.value).toBe('');
+      });
+
+      it('should not refresh a session idle for longer than idleTimeoutSeconds', async () => {
+        await forwardSessionLimits({ idleTimeoutSeconds: 30 * 60 });
+        await setSessionCookie({ signedInAt: Date.now(), lastActiveAt: Date.now() - 31 * minutes });
+
+        const result = await refreshSession();
+
+        expect(result).toEqual({ user: null });
+        expect(workos.userManagement.authenticateWithRefreshToken).not.toHaveBeenCalled();
+      });
+
+      it('should not count a refresh as activity', async () => {
+        const lastActiveAt = Date.now() - 10 * minutes;
+        await forwardSessionLimits({ idleTimeoutSeconds: 30 * 60 });
+        await setSessionCookie({ signedInAt: lastActiveAt, lastActiveAt });
+
+        const result = await refreshSession();
+
+        expect(result.user).toEqual(mockSession.user);
+        const payload = await unsealData<Record<string, number>>((await cookies()).get('wos-session')!.value, {
+          password,
+        });
+        expect(payload.lastActiveAt).toBe(lastActiveAt);
+      });
+
+      it('should ignore limits that were not sealed by the proxy/middleware', async () => {
+        (await headers()).set('x-workos-session-limits', 'forged');
+        await setSessionCookie({ signedInAt: Date.now() - 61 * minutes });
+
+        const result = await refreshSession();
+
+        expect(result.user).toEqual(mockSession.user);
+      });
+    });
+
+    it('should redirect to sign in from the middleware when a session expires', async () => {
+      const onSessionExpired = vi.fn();
+      const request = await requestWithSession({ signedInAt: Date.now() - 61 * minutes });
+
+      const response = await updateSessionMiddleware(
+        request,
+        false,
+        { enabled: true, unauthenticatedPaths: [] },
+        process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string,
+        [],
+        false,
+        undefined,
+        { maxSessionAgeSeconds: 60 * 60, onSessionExpired },
+      );
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toContain('client_id=');
+      expect(onSessionExpired).toHaveBeenCalledWith({ reason: 'max_session_age', request });
+    });
+  });
+
+  describe('invalid session cookies', () => {
+    const otherPassword = 'a-cookie-password-that-is-not-configured';
+
+    it('should treat a tampered session cookie as signed out and delete it', async () => {
+      const onInvalidSession = vi.fn();
+      const sealed = await sealData(mockSession, { password: process.env.WORKOS_COOKIE_PASSWORD as string });
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', `${sealed.slice(0, -10)}tampered!!`);
+
+      const result = await updateSession(request, { onInvalidSession });
+
+      expect(result.session.user).toBeNull();
+      expect(result.authorizationUrl).toBeDefined();
+      expect(result.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+      expect(onInvalidSession).toHaveBeenCalledWith({ error: expect.any(SessionDecryptionError), request });
+    });
+
+    it('should treat a session cookie sealed with an unknown password as signed out', async () => {
+      const onInvalidSession = vi.fn();
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', await sealData(mockSession, { password: otherPassword }));
+
+      const result = await updateSession(request, { onInvalidSession });
+
+      expect(result.session.user).toBeNull();
+      expect(result.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+      expect(onInvalidSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a malformed session cookie as signed out', async () => {
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', 'not-a-sealed-value');
+
+      const result = await updateSession(request);
+
+      expect(result.session.user).toBeNull();
+      expect(result.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+    });
+
+    it('should delete the cookie and call onInvalidSession from the middleware', async () => {
+      const onInvalidSession = vi.fn();
+
+      const request = new NextRequest(new URL('http://example.com/protected'));
+      request.cookies.set('wos-session', await sealData(mockSession, { password: otherPassword }));
+
+      const response = await updateSessionMiddleware(
+        request,
+        false,
+        { enabled: false, unauthenticatedPaths: [] },
+        process.env.NEXT_PUBLIC_WORKOS_REDIRECT_URI as string,
+        [],
+        false,
+        undefined,
+        { onInvalidSession },
+      );
+
+      expect(response.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^wos-session=; Expires=/));
+      expect(onInvalidSession).toHaveBeenCalledWith({ error: expect.any(SessionDecryptionError), request });
+    });
+
+    it('should not call onInvalidSession when there is no session cookie', async () => {
+      const onInvalidSession = vi.fn();
+
+      const result = await updateSession(new NextRequest(new URL('http://example.com/protected')), {
+        onInvalidSession,
+      });
+
+      expect(result.session.user).toBeNull();
+      expect(onInvalidSession).not.toHaveBeenCalled();
+    });
+
+    it('should return a signed out user from withAuth when the session header cannot be unsealed', async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-workos-session', await sealData(mockSession, { password: otherPassword }));
+
+      expect(await withAuth()).toEqual({ user: null });
+    });
+
+    it('should throw a SessionDecryptionError from getSessionFromCookie', async () => {
+      const nextCookies = await cookies();
+      nextCookies.set('wos-session', 'not-a-sealed-value');
+
+      await expect(getSessionFromCookie()).rejects.toBeInstanceOf(SessionDecryptionError);
+    });
+
+    it('should return a signed out user from refreshSession when the cookie cannot be unsealed', async () => {
+      const nextCookies = await cookies();
+      nextCookies.set('wos-session', await sealData(mockSession, { password: otherPassword }));
+
+      expect(await refreshSession()).toEqual({ user: null });
+    });
+  });
+
+  describe('getTokenClaims', () => {
+    beforeEach(async () => {
+      const nextCookies = await cookies();
+      // @ts-expect-error - _reset is part of the mock
+      nextCookies._reset();
+      vi.clearAllMocks();
+    });
+
+    it('should return all token claims when accessToken is provided', async () => {
+      const tokenPayload = {
+        sub: 'user_123',
+        org_id: 'org_123',
+        role: 'admin',
+        roles: ['admin'],
+        permissions: ['read', 'write'],
+        entitlements: ['feature_a'],
+        feature_flags: ['device-authorization-grant'],
+        department: 'engineering',
+        level: 5,
+        metadata: { theme: 'dark' },
+      };
+      const token = await generateTestToken(tokenPayload);
+
+      const result = await getTokenClaims(token);
+
+      expect(result).toMatchObject(tokenPayload);
+    });
+
+    it('should return empty object when no accessToken is provided and no session exists', async () => {
+      const result = await getTokenClaims();
+
+      expect(result).toEqual({});
+    });
+
+    it('should return all standard claims when token has only standard claims', async () => {
+      const tokenPayload = {
+        sub: 'user_123',
+        org_id: 'org_123',
+        role: 'admin',
+        roles: ['admin'],
+        permissions: ['read', 'write'],
+        entitlements: ['feature_a'],
+        feature_flags: ['device-authorization-grant'],
+      };
+      const token = await generateTestToken(tokenPayload);
+
+      const result = await getTokenClaims(token);
+
+      expect(result).toMatchObject(tokenPayload);
+    });
+
+    it('should return all claims including standard JWT claims', async () => {
+      const customClaims = {
+        customField: 'value',
+        anotherCustom: 42,
+      };
+      const standardClaims = {
+        aud: 'audience',
+        sub: 'user_123',
         sid: 'session_123',
         org_id: 'org_123',
         role: 'admin',
@@ -1414,15 +3214,6 @@ describe('session.ts', () => {
   });
 
   describe('checkRecentAuth', () => {
-    async function authenticate(authTime?: number) {
-      mockSession.accessToken = await generateTestToken(authTime === undefined ? {} : { auth_time: authTime });
-      const nextHeaders = await headers();
-      nextHeaders.set(
-        'x-workos-session',
-        await sealData(mockSession, { password: process.env.WORKOS_COOKIE_PASSWORD as string }),
-      );
-    }
-
     it('reports recent auth as not stale', async () => {
       const now = Math.floor(Date.now() / 1000);
       await authenticate(now - 60);
@@ -1451,6 +3242,33 @@ describe('session.ts', () => {
     });
   });
 
+  describe('requireRecentAuth', () => {
+    beforeEach(async () => {
+      const nextHeaders = await headers();
+      nextHeaders.set('x-url', 'https://example.com/settings/billing');
+    });
+
+    it('returns the user when they authenticated within maxAge', async () => {
+      await authenticate(Math.floor(Date.now() / 1000) - 60);
+
+      const result = await requireRecentAuth({ maxAge: 300 });
+
+      expect(result.user).toEqual(mockSession.user);
+      expect(redirect).not.toHaveBeenCalled();
+    });
+
+    it('redirects to re-authenticate when the last authentication is older than maxAge', async () => {
+      await authenticate(Math.floor(Date.now() / 1000) - 600);
+
+      await requireRecentAuth({ maxAge: 300 });
+
+      expect(redirect).toHaveBeenCalledTimes(1);
+      const location = new URL((redirect as unknown as Mock).mock.calls[0][0]);
+      expect(location.searchParams.get('max_age')).toBe('300');
+      expect(location.searchParams.get('screen_hint')).toBe('sign-in');
+    });
+  });
+
   describe('eager auth functionality', () => {
     beforeEach(() => {
       vi.clearAllMocks();
@@ -1,43 +1,80 @@
 import 'server-only';
 
 import { sealData, unsealData } from 'iron-session';
-import { JWTPayload, createRemoteJWKSet, decodeJwt, jwtVerify } from 'jose';
+import { JWTPayload, decodeJwt } from 'jose';
 import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { NextRequest } from 'next/server';
-import { getCookieOptions, getJwtCookie } from './cookie.js';
-import { WORKOS_CLIENT_ID, WORKOS_COOKIE_NAME, WORKOS_COOKIE_PASSWORD, WORKOS_REDIRECT_URI } from './env-variables.js';
-import { TokenRefreshError, getSessionErrorContext } from './errors.js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthKitConfig, getConfig, runWithAuthKitConfig } from './config.js';
+import {
+  chunkCookieValue,
+  getCookieOptions,
+  getCookiePassword,
+  getJwtCookie,
+  getStaleCookieChunkNames,
+  isCookieChunkOf,
+  isSealedWithCurrentPassword,
+  isValidCookiePassword,
+  readChunkedCookie,
+} from './cookie.js';
+import { verifyAccessToken } from './access-token.js';
+import { SessionDecryptionError, TokenRefreshError, getSessionErrorContext } from './errors.js';
+import { emitAuthKitEvent } from './events.js';
 import { getAuthorizationUrl } from './get-authorization-url.js';
 import {
   AccessToken,
+  ApiKeyAuthOptions,
+  AuthKitConfigResolver,
+  ApiKeyPrincipal,
+  AuthkitAccessRule,
   AuthkitMiddlewareAuth,
+  AuthkitMiddlewareOptions,
   AuthkitOptions,
+  AuthkitProxyHandler,
   AuthkitResponse,
+  AuthkitSession,
+  BearerUserInfo,
+  GetAuthURLOptions,
   NoUserInfo,
+  PathMatcher,
+  RefreshResult,
   Session,
+  SessionExpiryReason,
   UserInfo,
+  WithAuthOptions,
 } from './interfaces.js';
 import {
   appendPKCESetCookieHeader,
   isInitialDocumentRequest,
   setPKCECookie,
   setPendingPKCERedirectHeaders,
+  stripPKCESetCookieHeaders,
 } from './pkce.js';
-import { getWorkOS } from './workos.js';
+import { authenticateWithRefreshToken } from './refresh-cache.js';
+import { getLogger } from './logger.js';
+import { matchesPath, normalizePathname } from './path-matcher.js';
+import { parseSessionPayload, toSessionPayload } from './session-payload.js';
+import { withSpan } from './tracing.js';
+import { validateApiKeyValue } from './validate-api-key.js';
 
 import type { AuthenticationResponse } from '@workos-inc/node';
-import { parse, tokensToRegexp } from 'path-to-regexp';
-import { handleAuthkitHeaders } from './middleware-helpers.js';
-import { evaluateRecentAuth, lazy, setCachePreventionHeaders } from './utils.js';
+import {
+  applyResponseHeaders,
+  handleAuthkitHeaders,
+  mergeAuthkitHeaders,
+  partitionAuthkitHeaders,
+} from './middleware-helpers.js';
+import { evaluateRecentAuth, getRequestHost, setCachePreventionHeaders } from './utils.js';
 
 const sessionHeaderName = 'x-workos-session';
+const hostHeaderName = 'x-workos-host';
 const middlewareHeaderName = 'x-workos-middleware';
-const signUpPathsHeaderName = 'x-sign-up-paths';
+const screenHintHeaderName = 'x-workos-screen-hint';
+const bearerTokenHeaderName = 'x-workos-bearer-token';
+const apiKeyHeaderName = 'x-workos-api-key';
+const sessionLimitsHeaderName = 'x-workos-session-limits';
 const jwtCookieName = 'workos-access-token';
 
-const JWKS = lazy(() => createRemoteJWKSet(new URL(getWorkOS().userManagement.getJwksUrl(WORKOS_CLIENT_ID))));
-
 /**
  * Applies cache security headers with Vary header deduplication.
  * Only applies headers if the request is authenticated (has session, cookie, or Authorization header).
@@ -51,10 +88,12 @@ function applyCacheSecurityHeaders(
   request: NextRequest,
   sessionData?: { accessToken?: string } | Session,
 ): void {
-  const cookieName = WORKOS_COOKIE_NAME || 'wos-session';
+  const { cookieName } = getConfig();
+
+  const hasSessionCookie = request.cookies.getAll().some(({ name }) => isCookieChunkOf(cookieName, name));
 
   // Only apply cache headers for authenticated requests
-  if (!sessionData?.accessToken && !request.cookies.has(cookieName) && !request.headers.has('authorization')) {
+  if (!sessionData?.accessToken && !hasSessionCookie && !request.headers.has('authorization')) {
     return;
   }
 
@@ -82,26 +121,136 @@ function applyCacheSecurityHeaders(
 }
 
 async function encryptSession(session: Session) {
-  return sealData(session, {
-    password: WORKOS_COOKIE_PASSWORD,
+  return sealData(toSessionPayload(session), {
+    password: getCookiePassword(),
+    ttl: 0,
+  });
+}
+
+/**
+ * Seals a value the proxy/middleware forwards to the app in a request header.
+ * Unlike the app, a client can set any header on routes the proxy/middleware
+ * doesn't run on, so only sealed values are trusted.
+ */
+async function sealForwardedValue(data: object): Promise<string> {
+  return sealData(data, { password: getCookiePassword(), ttl: 0 });
+}
+
+/**
+ * Unseals a value sealed with `sealForwardedValue`. Returns `undefined` when
+ * the value wasn't sealed with the cookie password.
+ */
+async function unsealForwardedValue<T extends object>(value: string): Promise<Partial<T> | undefined> {
+  try {
+    // iron-session resolves to an empty object rather than throwing for a bad seal
+    return await unsealData<Partial<T>>(value, { password: getCookiePassword() });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The sealed cookie payload used when a session store is configured: an opaque
+ * id pointing at the session in the store, instead of the session itself.
+ */
+interface SessionReference {
+  id: string;
+}
+
+interface UnsealedSession {
+  session?: Session;
+  /** The id of the session in the configured session store, if the cookie referenced one. */
+  storeId?: string;
+}
+
+function isSessionReference(data: Session | SessionReference): data is SessionReference {
+  return typeof (data as SessionReference).id === 'string' && !('accessToken' in data);
+}
+
+/**
+ * Produces the value stored in the session cookie. Without a session store this
+ * is the sealed session itself. With one, the session is written to the store
+ * and the cookie only carries a sealed reference to it.
+ * @param session - The session to persist.
+ * @param storeId - The id of an existing stored session to overwrite, e.g. when rotating tokens.
+ */
+async function sealSessionCookie(session: Session, storeId?: string): Promise<string> {
+  const { sessionStore } = getAuthKitConfig();
+
+  if (!sessionStore) {
+    return encryptSession(session);
+  }
+
+  const id = storeId ?? crypto.randomUUID();
+  await sessionStore.set(id, toSessionPayload(session));
+
+  return sealData({ id } satisfies SessionReference, {
+    password: getCookiePassword(),
     ttl: 0,
   });
 }
 
+/**
+ * Unseals a session cookie (or the equivalent `x-workos-session` header),
+ * resolving the session from the configured store when the cookie only holds a
+ * reference to it.
+ * @throws {SessionDecryptionError} If the value can't be unsealed into a valid session or session reference.
+ */
+async function unsealSessionCookie(value: string): Promise<UnsealedSession> {
+  let data: Session | SessionReference;
+
+  try {
+    data = await unsealData<Session | SessionReference>(value, { password: getCookiePassword() });
+  } catch (error) {
+    throw new SessionDecryptionError('Failed to unseal the session cookie', error);
+  }
+
+  // iron-session resolves to an empty object rather than throwing for a bad
+  // hmac, a missing password or a malformed seal, which fails schema validation.
+  if (!isSessionReference(data)) {
+    return { session: parseSessionPayload(data) };
+  }
+
+  const { sessionStore } = getAuthKitConfig();
+  if (!sessionStore) {
+    return { storeId: data.id };
+  }
+
+  const session = await sessionStore.get(data.id);
+
+  return { session: session ? parseSessionPayload(session) : undefined, storeId: data.id };
+}
+
 async function updateSessionMiddleware(
   request: NextRequest,
   debug: boolean,
   middlewareAuth: AuthkitMiddlewareAuth,
   redirectUri: string,
-  signUpPaths: string[],
+  signUpPaths: PathMatcher[],
   eagerAuth = false,
   refreshBufferSeconds?: number,
+  sessionOptions: Pick<
+    AuthkitOptions<boolean>,
+    | 'maxStaleSeconds'
+    | 'onInvalidSession'
+    | 'maxSessionAgeSeconds'
+    | 'idleTimeoutSeconds'
+    | 'onSessionExpired'
+    | 'jwks'
+    | 'accessTokenValidation'
+    | 'bearerAuth'
+  > &
+    Pick<AuthkitMiddlewareOptions, 'apiKeyAuth' | 'locales'> & {
+      handler?: (session: AuthkitSession<boolean>) => ReturnType<AuthkitProxyHandler>;
+    } = {},
 ) {
-  if (!redirectUri && !WORKOS_REDIRECT_URI) {
+  const { redirectUri: defaultRedirectUri } = getConfig();
+
+  if (!redirectUri && !defaultRedirectUri) {
     throw new Error('You must provide a redirect URI in the AuthKit middleware or in the environment variables.');
   }
 
-  if (!WORKOS_COOKIE_PASSWORD || WORKOS_COOKIE_PASSWORD.length < 32) {
+  if (!isValidCookiePassword()) {
     throw new Error(
       'You must provide a valid cookie password that is at least 32 characters in the environment variables.',
     );
@@ -112,52 +261,149 @@ async function updateSessionMiddleware(
   if (redirectUri) {
     url = new URL(redirectUri);
   } else {
-    url = new URL(WORKOS_REDIRECT_URI);
+    url = new URL(defaultRedirectUri);
   }
 
-  if (
-    middlewareAuth.enabled &&
-    url.pathname === request.nextUrl.pathname &&
-    !middlewareAuth.unauthenticatedPaths.includes(url.pathname)
-  ) {
-    // In the case where:
-    // - We're using middleware auth mode
-    // - The redirect URI is in the middleware matcher
-    // - The redirect URI isn't in the unauthenticatedPaths array
-    //
-    // then we would get stuck in a login loop due to the redirect happening before the session is set.
-    // It's likely that the user accidentally forgot to add the path to unauthenticatedPaths, so we add it here.
-    middlewareAuth.unauthenticatedPaths.push(url.pathname);
-  }
+  // In the case where:
+  // - We're using middleware auth mode
+  // - The redirect URI is in the middleware matcher
+  // - The redirect URI isn't in the unauthenticatedPaths array
+  //
+  // then we would get stuck in a login loop due to the redirect happening before the session is set.
+  // It's likely that the user accidentally forgot to add the path to unauthenticatedPaths, so we treat it as one.
+  const { apiKeyAuth, handler, locales, ...updateOptions } = sessionOptions;
+  const log = getLogger(debug);
 
-  const matchedPaths: string[] = middlewareAuth.unauthenticatedPaths.filter((pathGlob) => {
-    const pathRegex = getMiddlewareAuthPathRegex(pathGlob);
+  // Paths are matched without the locale prefix, so patterns don't need to be
+  // repeated for each locale. Next.js has already removed the `basePath`, but
+  // the redirect URI still includes it.
+  const pathname = normalizePathname(request.nextUrl.pathname, { locales });
+  const redirectPathname = normalizePathname(url.pathname, { basePath: request.nextUrl.basePath, locales });
 
-    return pathRegex.exec(request.nextUrl.pathname);
-  });
+  const isUnauthenticatedPath =
+    (middlewareAuth.enabled && redirectPathname === pathname) ||
+    matchesPath(request, middlewareAuth.unauthenticatedPaths, { pathname });
+
+  const screenHint = matchesPath(request, signUpPaths, { pathname }) ? 'sign-up' : 'sign-in';
 
   const { session, headers, authorizationUrl } = await updateSession(request, {
     debug,
     redirectUri,
-    screenHint: getScreenHint(signUpPaths, request.nextUrl.pathname),
+    screenHint,
     eagerAuth,
     refreshBufferSeconds,
+    ...updateOptions,
   });
 
-  // Record the sign up paths so we can use them later
-  if (signUpPaths.length > 0) {
-    headers.set(signUpPathsHeaderName, signUpPaths.join(','));
+  // Record the screen hint so `withAuth({ ensureSignedIn: true })` can use it later
+  if (screenHint === 'sign-up') {
+    headers.set(screenHintHeaderName, screenHint);
   }
 
   applyCacheSecurityHeaders(headers, request, session);
 
+  // API keys are only accepted on their paths, from requests without a signed-in user
+  const apiKeyPrincipal =
+    !session.user && apiKeyAuth && matchesPath(request, apiKeyAuth.paths, { pathname })
+      ? await getApiKeyPrincipal(request, apiKeyAuth)
+      : undefined;
+
+  if (apiKeyPrincipal) {
+    headers.set(apiKeyHeaderName, await sealForwardedValue(apiKeyPrincipal));
+  }
+
+  const isAuthenticated = Boolean(session.user || apiKeyPrincipal);
+
   // If the user is logged out and this path isn't on the allowlist for logged out paths, redirect to AuthKit.
-  if (middlewareAuth.enabled && matchedPaths.length === 0 && !session.user) {
-    if (debug) {
-      console.log(`Unauthenticated user on protected route ${request.url}, redirecting to AuthKit`);
+  if (middlewareAuth.enabled && !isUnauthenticatedPath && !isAuthenticated) {
+    const isApi = isApiRequest(request, pathname, middlewareAuth);
+
+    log.debug(
+      `Unauthenticated user on protected route ${request.url}, ${isApi ? 'responding with 401' : 'redirecting to AuthKit'}`,
+      { path: request.nextUrl.pathname },
+    );
+
+    return isApi
+      ? unauthorizedResponse(request, headers)
+      : handleAuthkitHeaders(request, headers, { redirect: authorizationUrl as string });
+  }
+
+  const matchedRules = (middlewareAuth.rules ?? []).filter((rule) =>
+    matchesPath(request, Array.isArray(rule.matcher) ? rule.matcher : [rule.matcher], { pathname, cacheKey: rule }),
+  );
+
+  if (matchedRules.length > 0) {
+    if (!isAuthenticated) {
+      const isApi = isApiRequest(request, pathname, middlewareAuth);
+
+      log.debug(
+        `Unauthenticated user on route with access rules ${request.url}, ${isApi ? 'responding with 401' : 'redirecting to AuthKit'}`,
+        { path: request.nextUrl.pathname },
+      );
+
+      return isApi
+        ? unauthorizedResponse(request, headers)
+        : handleAuthkitHeaders(request, headers, { redirect: authorizationUrl as string });
+    }
+
+    // An API key can't re-authenticate, so it never passes a `maxAge` rule
+    const failedRule = matchedRules.find(
+      (rule) =>
+        !isAllowedByRule(apiKeyPrincipal ?? session, rule) ||
+        (apiKeyPrincipal !== undefined && rule.maxAge !== undefined),
+    );
+    if (failedRule) {
+      log.debug(
+        `${apiKeyPrincipal ? `API key ${apiKeyPrincipal.apiKeyId}` : `User ${session.user?.id}`} failed an access rule on ${request.url}`,
+        {
+          path: request.nextUrl.pathname,
+          userId: session.user?.id,
+          sessionId: session.sessionId,
+          apiKeyId: apiKeyPrincipal?.apiKeyId,
+        },
+      );
+
+      return forbiddenResponse(request, headers, middlewareAuth, failedRule);
     }
 
-    return handleAuthkitHeaders(request, headers, { redirect: authorizationUrl as string });
+    const maxAges = matchedRules.flatMap((rule) => (rule.maxAge === undefined ? [] : [rule.maxAge]));
+    const maxAge = maxAges.length > 0 ? Math.min(...maxAges) : undefined;
+
+    if (maxAge !== undefined && !apiKeyPrincipal) {
+      const { isStale } = evaluateRecentAuth({
+        authTime: session.accessToken ? decodeJwt(session.accessToken).auth_time : undefined,
+        maxAgeSeconds: maxAge,
+        nowSeconds: Math.floor(Date.now() / 1000),
+      });
+
+      if (isStale) {
+        const isApi = isApiRequest(request, pathname, middlewareAuth);
+
+        log.debug(
+          `User ${session.user?.id} must re-authenticate for ${request.url}, ${isApi ? 'responding with 401' : 'redirecting to AuthKit'}`,
+          { path: request.nextUrl.pathname, userId: session.user?.id, sessionId: session.sessionId, maxAge },
+        );
+
+        if (isApi) {
+          return unauthorizedResponse(request, headers, maxAge);
+        }
+
+        const { url: reauthenticationUrl, sealedState } = await getAuthorizationUrl({
+          returnPathname: getReturnPathname(request.nextUrl.href),
+          redirectUri: redirectUri || defaultRedirectUri,
+          screenHint: 'sign-in',
+          maxAge,
+        });
+        setPendingPKCERedirectHeaders(headers, reauthenticationUrl, sealedState);
+
+        return handleAuthkitHeaders(request, headers, { redirect: reauthenticationUrl });
+      }
+    }
+  }
+
+  const response = await handler?.(session);
+  if (response) {
+    return mergeAuthkitHeaders(request, response, headers);
   }
 
   return handleAuthkitHeaders(request, headers);
@@ -165,9 +411,26 @@ async function updateSessionMiddleware(
 
 async function updateSession(
   request: NextRequest,
-  options: AuthkitOptions = { debug: false },
-): Promise<AuthkitResponse> {
-  const session = await getSessionFromCookie(request);
+  options: AuthkitOptions<boolean> = { debug: false },
+): Promise<AuthkitResponse<AuthkitSession<boolean>>> {
+  const cookieValue = await getSessionCookieValue(request);
+  let unsealed: UnsealedSession = {};
+  let invalidSessionError: SessionDecryptionError | undefined;
+
+  if (cookieValue) {
+    try {
+      unsealed = await unsealSessionCookie(cookieValue);
+    } catch (e) {
+      if (!(e instanceof SessionDecryptionError)) {
+        throw e;
+      }
+      invalidSessionError = e;
+    }
+  }
+
+  const { session, storeId } = unsealed;
+  const log = getLogger(options.debug);
+  const path = request.nextUrl.pathname;
 
   // Since we're setting the headers in the response, we need to create a new Headers object without copying
   // the request headers.
@@ -182,6 +445,10 @@ async function updateSession(
   // `pathname` to be able to return the users where they came from before sign-in
   newRequestHeaders.set('x-url', request.url);
 
+  // Record the host the request was made to, so `withAuth` can resolve the same
+  // configuration the proxy/middleware used for it
+  newRequestHeaders.set(hostHeaderName, getRequestHost(request));
+
   if (options.redirectUri) {
     // Store the redirect URI in a custom header, so we always have access to it and so that subsequent
     // calls to `getAuthorizationUrl` will use the same redirect URI
@@ -189,15 +456,113 @@ async function updateSession(
   }
 
   newRequestHeaders.delete(sessionHeaderName);
+  newRequestHeaders.delete(bearerTokenHeaderName);
+
+  // Forward the session lifetime limits, so `refreshSession` enforces them too
+  if (options.maxSessionAgeSeconds !== undefined || options.idleTimeoutSeconds !== undefined) {
+    newRequestHeaders.set(
+      sessionLimitsHeaderName,
+      await sealForwardedValue({
+        maxSessionAgeSeconds: options.maxSessionAgeSeconds,
+        idleTimeoutSeconds: options.idleTimeoutSeconds,
+      }),
+    );
+  }
 
-  if (!session) {
-    if (options.debug) {
-      console.log('No session found from cookie');
+  // Clears the session cookie, along with the JWT cookie if eagerAuth is enabled
+  const deleteSessionCookies = () => {
+    appendSessionSetCookieHeaders(request, newRequestHeaders, null);
+
+    if (options.eagerAuth) {
+      newRequestHeaders.append('Set-Cookie', getJwtCookie(null, request.url, true));
+    }
+  };
+
+  // Clients without a session cookie, such as native apps, may authenticate
+  // with an access token instead. It can't be refreshed, so it must be valid.
+  // Bearer sessions are only resolved with `bearerAuth: true`, which is why
+  // `AuthkitSession` only includes them then.
+  const bearerToken = options.bearerAuth && !cookieValue ? getBearerToken(request) : undefined;
+
+  if (bearerToken) {
+    const bearerVerification = await verifyAccessToken(bearerToken, {
+      ...options.accessTokenValidation,
+      jwks: options.jwks,
+    });
+    const bearerSession = bearerVerification.valid ? getBearerUserInfo(bearerToken) : undefined;
+
+    if (bearerSession) {
+      newRequestHeaders.set(bearerTokenHeaderName, await sealForwardedValue({ accessToken: bearerToken }));
+      applyCacheSecurityHeaders(newRequestHeaders, request, bearerSession);
+
+      return { session: bearerSession, headers: newRequestHeaders };
+    }
+
+    const reason = bearerVerification.valid ? 'missing_subject' : bearerVerification.reason;
+    log.debug(`Bearer token rejected (${reason}).`, { path, reason });
+  }
+
+  const now = Date.now();
+  const expiryReason = session ? getSessionExpiryReason(session, options, now) : undefined;
+  const verification =
+    session && !expiryReason
+      ? await verifyAccessToken(session.accessToken, { ...options.accessTokenValidation, jwks: options.jwks })
+      : undefined;
+  // A token issued by another issuer or for another client can't be refreshed
+  // into a valid session for this one
+  const rejectedTokenReason =
+    verification?.valid === false &&
+    (verification.reason === 'invalid_issuer' || verification.reason === 'invalid_audience')
+      ? verification.reason
+      : undefined;
+
+  if (!session || expiryReason || rejectedTokenReason) {
+    if (invalidSessionError) {
+      log.debug('Session cookie could not be unsealed. Deleting cookie.', { path, error: invalidSessionError });
+
+      // Treat the request as signed out and clear the unusable cookie so it isn't sent again
+      deleteSessionCookies();
+      options.onInvalidSession?.({ error: invalidSessionError, request });
+      await emitAuthKitEvent({ type: 'session_invalid', reason: 'decryption_failed' });
+    } else if (expiryReason) {
+      log.debug(
+        `Session ended by ${expiryReason === 'idle_timeout' ? 'idle timeout' : 'max session age'}. Deleting cookie.`,
+        { path, userId: session?.user.id, reason: expiryReason },
+      );
+
+      if (storeId) {
+        await getAuthKitConfig().sessionStore?.delete(storeId);
+      }
+
+      deleteSessionCookies();
+      options.onSessionExpired?.({ reason: expiryReason, request });
+      await emitAuthKitEvent({ type: 'session_invalid', reason: expiryReason, userId: session?.user.id });
+    } else if (rejectedTokenReason) {
+      log.debug(`Access token rejected (${rejectedTokenReason}). Deleting cookie.`, {
+        path,
+        userId: session?.user.id,
+        reason: rejectedTokenReason,
+      });
+
+      if (storeId) {
+        await getAuthKitConfig().sessionStore?.delete(storeId);
+      }
+
+      deleteSessionCookies();
+      await emitAuthKitEvent({ type: 'session_invalid', reason: rejectedTokenReason, userId: session?.user.id });
+    } else if (storeId && getAuthKitConfig().sessionStore) {
+      log.debug('Session not found in the session store. Deleting cookie.', { path });
+
+      // The session was revoked or expired from the store, so the cookie referencing it is dangling
+      deleteSessionCookies();
+      await emitAuthKitEvent({ type: 'session_invalid', reason: 'session_not_found' });
+    } else {
+      log.debug('No session found from cookie', { path });
     }
 
     const { url: authorizationUrl, sealedState } = await getAuthorizationUrl({
-      returnPathname: getReturnPathname(request.url),
-      redirectUri: options.redirectUri || WORKOS_REDIRECT_URI,
+      returnPathname: getReturnPathname(request.nextUrl.href),
+      redirectUri: options.redirectUri || getConfig().redirectUri,
       screenHint: options.screenHint,
     });
 
@@ -211,15 +576,16 @@ async function updateSession(
     };
   }
 
-  const hasValidSession = await verifyAccessToken(session.accessToken);
-  const isExpiring = hasValidSession && isTokenExpiring(session.accessToken, options.refreshBufferSeconds);
-
-  const cookieName = WORKOS_COOKIE_NAME || 'wos-session';
+  const hasValidSession = verification?.valid === true;
+  const isExpiring = hasValidSession && isTokenExpiring(session.accessToken, options.refreshBufferSeconds, now);
 
   applyCacheSecurityHeaders(newRequestHeaders, request, session);
 
-  const respondWithCurrentToken = (): AuthkitResponse => {
-    newRequestHeaders.set(sessionHeaderName, request.cookies.get(cookieName)!.value);
+  const respondWithCurrentToken = (
+    sealedSession = cookieValue!,
+    { stale = false } = {},
+  ): AuthkitResponse<AuthkitSession<boolean>> => {
+    newRequestHeaders.set(sessionHeaderName, sealedSession);
 
     const {
       sid: sessionId,
@@ -253,47 +619,71 @@ async function updateSession(
         featureFlags,
         impersonator: session.impersonator,
         accessToken: session.accessToken,
+        ...(stale && { stale }),
       },
       headers: newRequestHeaders,
     };
   };
 
   if (hasValidSession && !isExpiring) {
+    if (storeId) {
+      await getAuthKitConfig().sessionStore?.touch(storeId);
+    }
+
+    const activeSession = recordSessionActivity(session, options, now);
+
+    // The cookie was sealed with an older password from the rotation set.
+    // Re-seal it with the newest one so the old password can be retired later
+    // without signing anyone out. Also re-seal it to record activity for the
+    // session lifetime limits.
+    if (activeSession !== session || !isSealedWithCurrentPassword(cookieValue!)) {
+      if (activeSession === session) {
+        log.debug('Session cookie sealed with a previous cookie password. Re-sealing with the current password.', {
+          path,
+          userId: session.user.id,
+        });
+      }
+
+      const resealedSession = await sealSessionCookie(activeSession, storeId);
+      appendSessionSetCookieHeaders(request, newRequestHeaders, resealedSession);
+
+      return respondWithCurrentToken(resealedSession);
+    }
+
     return respondWithCurrentToken();
   }
 
   try {
-    if (options.debug) {
-      // istanbul ignore next
-      console.log(
-        isExpiring
-          ? `Session expiring soon. Proactively refreshing access token that ends in ${session.accessToken.slice(-10)}`
-          : `Session invalid. ${session.accessToken ? `Refreshing access token that ends in ${session.accessToken.slice(-10)}` : 'Access token missing.'}`,
-      );
-    }
+    log.debug(
+      isExpiring
+        ? `Session expiring soon. Proactively refreshing access token that ends in ${session.accessToken.slice(-10)}`
+        : `Session invalid. ${session.accessToken ? `Refreshing access token that ends in ${session.accessToken.slice(-10)}` : 'Access token missing.'}`,
+      { path, userId: session.user.id, reason: verification?.valid === false ? verification.reason : undefined },
+    );
 
     const { org_id: organizationIdFromAccessToken } = decodeJwt<AccessToken>(session.accessToken);
 
-    const { accessToken, refreshToken, user, impersonator, authenticationMethod } =
-      await getWorkOS().userManagement.authenticateWithRefreshToken({
-        clientId: WORKOS_CLIENT_ID,
-        refreshToken: session.refreshToken,
-        organizationId: organizationIdFromAccessToken,
-      });
+    const { accessToken, refreshToken, user, impersonator, authenticationMethod } = await refreshWithSpan(
+      { refreshToken: session.refreshToken, organizationId: organizationIdFromAccessToken },
+      isExpiring,
+    );
 
-    if (options.debug) {
-      console.log('Session successfully refreshed');
-    }
+    log.debug('Session successfully refreshed', { path, userId: user.id });
     // Encrypt session with new access and refresh tokens
-    const encryptedSession = await encryptSession({
-      accessToken,
-      refreshToken,
-      user,
-      impersonator,
-      authenticationMethod,
-    });
+    const encryptedSession = await sealSessionCookie(
+      {
+        accessToken,
+        refreshToken,
+        user,
+        impersonator,
+        authenticationMethod,
+        signedInAt: session.signedInAt ?? now,
+        lastActiveAt: now,
+      },
+      storeId,
+    );
 
-    newRequestHeaders.append('Set-Cookie', `${cookieName}=${encryptedSession}; ${getCookieOptions(request.url, true)}`);
+    appendSessionSetCookieHeaders(request, newRequestHeaders, encryptedSession);
     newRequestHeaders.set(sessionHeaderName, encryptedSession);
 
     // Set JWT cookie if eagerAuth is enabled
@@ -313,6 +703,7 @@ async function updateSession(
     } = decodeJwt<AccessToken>(accessToken);
 
     options.onSessionRefreshSuccess?.({ accessToken, user, impersonator, organizationId });
+    await emitAuthKitEvent({ type: 'session_refreshed', user, sessionId, organizationId, proactive: isExpiring });
 
     return {
       session: {
@@ -330,46 +721,74 @@ async function updateSession(
       headers: newRequestHeaders,
     };
   } catch (e) {
+    // Only tear down the session for a terminal failure. A transient failure
+    // (network error, request timeout, 429, or 5xx that survived the SDK's
+    // internal retries) is not a signal that the refresh token is dead —
+    // deleting the cookie here would turn a brief outage into a forced
+    // re-authentication, and the still-valid refresh token would be lost. Keep
+    // the sealed cookie so a later request refreshes successfully once the
+    // condition clears.
+    const isTransient = isTransientRefreshError(e);
+
+    await emitAuthKitEvent({
+      type: 'refresh_failed',
+      userId: session.user.id,
+      sessionId: getSessionErrorContext(session).sessionId,
+      error: e,
+      isTransient,
+    });
+
     if (isExpiring) {
       // A failed proactive refresh is not fatal while the current token is still
       // valid. Refresh tokens are single-use, so a concurrent request in the same
-      // buffer window may have already rotated this one; that request has persisted
+      // buffer window may have already rotated this one (on another instance, or
+      // longer ago than the refresh cache keeps results); that request has persisted
       // the new session cookie. Serve this request with the current token instead of
       // destroying the session. Re-check validity here: the token may have expired
       // during the refresh round trip, in which case fall through to the
       // delete-cookie path below.
       const { exp } = decodeJwt(session.accessToken);
       if (typeof exp === 'number' && exp > Math.floor(Date.now() / 1000)) {
-        if (options.debug) {
-          console.log('Proactive refresh failed. Serving request with the still-valid access token.', e);
-        }
+        log.debug('Proactive refresh failed. Serving request with the still-valid access token.', {
+          path,
+          userId: session.user.id,
+          error: e,
+        });
 
         return respondWithCurrentToken();
       }
     }
 
-    // Only tear down the session for a terminal failure. A transient failure
-    // (network error, request timeout, 429, or 5xx that survived the SDK's
-    // internal retries) is not a signal that the refresh token is dead —
-    // deleting the cookie here would turn a brief outage into a forced
-    // re-authentication, and the still-valid refresh token would be lost. Keep
-    // the sealed cookie so a later request refreshes successfully once the
-    // condition clears.
-    const isTransient = isTransientRefreshError(e);
+    // An access token that expired recently still identifies the user. Keep
+    // serving it during an outage rather than sending the user to a sign-in
+    // page that is likely unavailable too. The window is based on `exp`, since
+    // a token just past it may still have verified within the clock tolerance.
+    const isUntrustedToken =
+      verification?.valid === false &&
+      (verification.reason === 'invalid_signature' ||
+        verification.reason === 'invalid_issuer' ||
+        verification.reason === 'invalid_audience');
+
+    if (isTransient && !isUntrustedToken && isWithinStaleWindow(session.accessToken, options.maxStaleSeconds)) {
+      log.debug('Failed to refresh due to a transient error. Serving the request with the stale session.', {
+        path,
+        userId: session.user.id,
+        error: e,
+      });
 
-    if (options.debug) {
-      console.log(
-        isTransient
-          ? 'Failed to refresh due to a transient error. Preserving the session cookie so it can be retried.'
-          : 'Failed to refresh. Deleting cookie.',
-        e,
-      );
+      return respondWithCurrentToken(cookieValue!, { stale: true });
     }
 
+    log.debug(
+      isTransient
+        ? 'Failed to refresh due to a transient error. Preserving the session cookie so it can be retried.'
+        : 'Failed to refresh. Deleting cookie.',
+      { path, userId: session.user.id, error: e },
+    );
+
     if (!isTransient) {
       // When we need to delete a cookie, return it as a header as you can't delete cookies from edge middleware
-      const deleteCookie = `${cookieName}=; Expires=${new Date(0).toUTCString()}; ${getCookieOptions(request.url, true, true)}`;
-      newRequestHeaders.append('Set-Cookie', deleteCookie);
+      appendSessionSetCookieHeaders(request, newRequestHeaders, null);
 
       // Delete JWT cookie if eagerAuth is enabled
       if (options.eagerAuth) {
@@ -381,8 +800,8 @@ async function updateSession(
     options.onSessionRefreshError?.({ error: e, request, isTransient });
 
     const { url: authorizationUrl, sealedState } = await getAuthorizationUrl({
-      returnPathname: getReturnPathname(request.url),
-      redirectUri: options.redirectUri || WORKOS_REDIRECT_URI,
+      returnPathname: getReturnPathname(request.nextUrl.href),
+      redirectUri: options.redirectUri || getConfig().redirectUri,
     });
 
     setPendingPKCERedirectHeaders(newRequestHeaders, authorizationUrl, sealedState);
@@ -396,20 +815,42 @@ async function updateSession(
   }
 }
 
-async function refreshSession(options: { organizationId?: string; ensureSignedIn: true }): Promise<UserInfo>;
-async function refreshSession(options?: {
+type RefreshSessionOptions = Pick<WithAuthOptions, 'resolveConfig'> & {
   organizationId?: string;
   ensureSignedIn?: boolean;
-}): Promise<UserInfo | NoUserInfo>;
+};
+
+async function refreshSession(options: RefreshSessionOptions & { ensureSignedIn: true }): Promise<UserInfo>;
+async function refreshSession(options?: RefreshSessionOptions): Promise<UserInfo | NoUserInfo>;
 async function refreshSession({
   organizationId: nextOrganizationId,
   ensureSignedIn = false,
-}: {
-  organizationId?: string;
-  ensureSignedIn?: boolean;
-} = {}): Promise<UserInfo | NoUserInfo> {
-  const session = await getSessionFromCookie();
-  if (!session) {
+  resolveConfig,
+}: RefreshSessionOptions = {}): Promise<UserInfo | NoUserInfo> {
+  if (resolveConfig) {
+    return runWithResolvedConfig(resolveConfig, () =>
+      refreshSession({ organizationId: nextOrganizationId, ensureSignedIn }),
+    );
+  }
+
+  const { session, storeId } = await getUnsealedSessionFromCookie();
+  const headersList = await headers();
+  const url = headersList.get('x-url');
+  const now = Date.now();
+
+  // Background refreshes, such as those of `AuthKitProvider`, must not extend
+  // a session past the limits the proxy/middleware enforces
+  const expiryReason = session ? getSessionExpiryReason(session, await getSessionLimitsFromHeader(), now) : undefined;
+  if (session && expiryReason) {
+    if (storeId) {
+      await getAuthKitConfig().sessionStore?.delete(storeId);
+    }
+
+    await expireSessionCookies(url || getConfig().redirectUri);
+    await emitAuthKitEvent({ type: 'session_invalid', reason: expiryReason, userId: session.user.id });
+  }
+
+  if (!session || expiryReason) {
     if (ensureSignedIn) {
       await redirectToSignIn();
     }
@@ -421,23 +862,34 @@ async function refreshSession({
   let refreshResult;
 
   try {
-    refreshResult = await getWorkOS().userManagement.authenticateWithRefreshToken({
-      clientId: WORKOS_CLIENT_ID,
-      refreshToken: session.refreshToken,
-      organizationId: nextOrganizationId ?? organizationIdFromAccessToken,
-    });
+    refreshResult = await refreshWithSpan(
+      { refreshToken: session.refreshToken, organizationId: nextOrganizationId ?? organizationIdFromAccessToken },
+      false,
+    );
   } catch (error) {
+    const context = { ...getSessionErrorContext(session), isTransient: isTransientRefreshError(error) };
+
+    await emitAuthKitEvent({
+      type: 'refresh_failed',
+      userId: session.user.id,
+      sessionId: context.sessionId,
+      error,
+      isTransient: context.isTransient,
+    });
+
     throw new TokenRefreshError(
       `Failed to refresh session: ${error instanceof Error ? error.message : String(error)}`,
       error,
-      { ...getSessionErrorContext(session), isTransient: isTransientRefreshError(error) },
+      context,
     );
   }
 
-  const headersList = await headers();
-  const url = headersList.get('x-url');
-
-  await saveSession(refreshResult, url || WORKOS_REDIRECT_URI);
+  // A refresh isn't activity of the user, so it doesn't reset the idle timeout
+  await persistSession(
+    { ...refreshResult, signedInAt: session.signedInAt ?? now, lastActiveAt: session.lastActiveAt ?? now },
+    url || getConfig().redirectUri,
+    storeId,
+  );
 
   const { accessToken, user, impersonator } = refreshResult;
 
@@ -451,6 +903,18 @@ async function refreshSession({
     feature_flags: featureFlags,
   } = decodeJwt<AccessToken>(accessToken);
 
+  await emitAuthKitEvent({ type: 'session_refreshed', user, sessionId, organizationId, proactive: false });
+
+  if (nextOrganizationId && organizationId !== organizationIdFromAccessToken) {
+    await emitAuthKitEvent({
+      type: 'organization_switched',
+      userId: user.id,
+      sessionId,
+      organizationId,
+      previousOrganizationId: organizationIdFromAccessToken,
+    });
+  }
+
   return {
     sessionId,
     user,
@@ -465,24 +929,100 @@ async function refreshSession({
   };
 }
 
-function getMiddlewareAuthPathRegex(pathGlob: string) {
-  try {
-    const url = new URL(pathGlob, 'https://example.com');
-    const path = `${url.pathname!}${url.hash || ''}`;
+function isAllowedByRule(
+  session: Pick<UserInfo, 'role' | 'roles' | 'permissions' | 'entitlements'>,
+  { permissions = [], roles = [], entitlements = [] }: AuthkitAccessRule,
+) {
+  const userRoles = new Set([...(session.roles ?? []), ...(session.role ? [session.role] : [])]);
 
-    const tokens = parse(path);
-    const regex = tokensToRegexp(tokens).source;
+  return (
+    permissions.every((permission) => session.permissions?.includes(permission)) &&
+    (roles.length === 0 || roles.some((role) => userRoles.has(role))) &&
+    entitlements.every((entitlement) => session.entitlements?.includes(entitlement))
+  );
+}
 
-    return new RegExp(regex);
-  } catch (err) {
-    console.log('err', err);
-    const message = err instanceof Error ? err.message : String(err);
+/**
+ * Whether a request that must (re-)authenticate should be answered with a 401
+ * rather than redirected to AuthKit: it matches `apiPaths`, or `unauthenticatedResponse`
+ * is `'auto'` and it isn't a page load. Requests made by the Next.js router
+ * (RSC payloads, prefetches and server actions) keep the redirect, which the
+ * router follows itself.
+ */
+function isApiRequest(
+  request: NextRequest,
+  pathname: string,
+  { apiPaths = [], unauthenticatedResponse }: AuthkitMiddlewareAuth,
+) {
+  if (matchesPath(request, apiPaths, { pathname })) {
+    return true;
+  }
+
+  const isNextRouterRequest =
+    request.headers.has('RSC') ||
+    request.headers.has('Next-Router-State-Tree') ||
+    request.headers.has('Next-Router-Prefetch') ||
+    request.headers.has('Next-Action');
+
+  return unauthenticatedResponse === 'auto' && !isInitialDocumentRequest(request) && !isNextRouterRequest;
+}
+
+/**
+ * Answers an API request that needs a signed-in user with a `401`. With
+ * `maxAge`, the user is signed in but must re-authenticate, which is reported
+ * as an RFC 9470 step-up challenge.
+ */
+function unauthorizedResponse(request: NextRequest, authkitHeaders: Headers, maxAge?: number) {
+  const headers = new Headers(authkitHeaders);
+  // The sign-in flow isn't started, so its PKCE cookie must not be set
+  stripPKCESetCookieHeaders(headers);
+
+  const { responseHeaders } = partitionAuthkitHeaders(request, headers);
+  const response =
+    maxAge === undefined
+      ? NextResponse.json(
+          { error: 'unauthorized', error_description: 'Authentication required' },
+          { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } },
+        )
+      : NextResponse.json(
+          {
+            error: 'insufficient_user_authentication',
+            error_description: 'A more recent authentication is required',
+            max_age: maxAge,
+          },
+          {
+            status: 401,
+            headers: { 'WWW-Authenticate': `Bearer error="insufficient_user_authentication", max_age=${maxAge}` },
+          },
+        );
+
+  return applyResponseHeaders(response, responseHeaders);
+}
 
-    throw new Error(`Error parsing routes for middleware auth. Reason: ${message}`);
+async function forbiddenResponse(
+  request: NextRequest,
+  authkitHeaders: Headers,
+  { forbiddenPath, onForbidden }: AuthkitMiddlewareAuth,
+  rule: AuthkitAccessRule,
+) {
+  if (onForbidden) {
+    return mergeAuthkitHeaders(request, await onForbidden({ request, rule }), authkitHeaders);
   }
+
+  const { requestHeaders, responseHeaders } = partitionAuthkitHeaders(request, authkitHeaders);
+
+  let response: NextResponse;
+  if (forbiddenPath) {
+    // Rewrite with the AuthKit request headers, so `withAuth` works on the forbidden page
+    response = NextResponse.rewrite(new URL(forbiddenPath, request.url), { request: { headers: requestHeaders } });
+  } else {
+    response = new NextResponse('Forbidden', { status: 403 });
+  }
+
+  return applyResponseHeaders(response, responseHeaders);
 }
 
-async function redirectToSignIn() {
+async function redirectToSignIn({ screenHint, maxAge }: Pick<GetAuthURLOptions, 'screenHint' | 'maxAge'> = {}) {
   const headersList = await headers();
   const url = headersList.get('x-url');
 
@@ -491,14 +1031,15 @@ async function redirectToSignIn() {
   }
 
   // Determine if the current route is in the sign up paths
-  const signUpPaths = headersList.get(signUpPathsHeaderName)?.split(',');
-
-  const pathname = new URL(url).pathname;
-  const screenHint = getScreenHint(signUpPaths, pathname);
+  const defaultScreenHint = headersList.get(screenHintHeaderName) === 'sign-up' ? 'sign-up' : 'sign-in';
 
   const returnPathname = getReturnPathname(url);
 
-  const { url: authkitUrl, sealedState } = await getAuthorizationUrl({ returnPathname, screenHint });
+  const { url: authkitUrl, sealedState } = await getAuthorizationUrl({
+    returnPathname,
+    screenHint: screenHint ?? defaultScreenHint,
+    maxAge,
+  });
   await setPKCECookie(sealedState);
   redirect(authkitUrl);
 }
@@ -542,12 +1083,68 @@ export async function checkRecentAuth({ maxAge }: { maxAge: number }) {
   return evaluateRecentAuth({ authTime, maxAgeSeconds: maxAge, nowSeconds: Math.floor(Date.now() / 1000) });
 }
 
-async function withAuth(options: { ensureSignedIn: true }): Promise<UserInfo>;
-async function withAuth(options?: { ensureSignedIn?: true | false }): Promise<UserInfo | NoUserInfo>;
-async function withAuth(options?: { ensureSignedIn?: boolean }): Promise<UserInfo | NoUserInfo> {
-  const session = await getSessionFromHeader();
+/**
+ * Require that the current user authenticated within the last `maxAge`
+ * seconds. Signed-out users are sent to sign in, and users whose most recent
+ * authentication is older are sent through re-authentication with OIDC
+ * `max_age`. Either way they come back to the current page afterwards.
+ *
+ * @example
+ * ```typescript
+ * // app/settings/billing/page.tsx
+ * const { user } = await requireRecentAuth({ maxAge: 300 });
+ * ```
+ *
+ * @remarks
+ * Requires `@workos-inc/node` >= 10.7.0 for `maxAge` forwarding.
+ */
+export async function requireRecentAuth({ maxAge }: { maxAge: number }): Promise<UserInfo> {
+  const auth = await withAuth({ ensureSignedIn: true });
+  const { isStale } = evaluateRecentAuth({
+    authTime: decodeJwt(auth.accessToken).auth_time,
+    maxAgeSeconds: maxAge,
+    nowSeconds: Math.floor(Date.now() / 1000),
+  });
+
+  if (isStale) {
+    await redirectToSignIn({ screenHint: 'sign-in', maxAge });
+  }
+
+  return auth;
+}
+
+async function withAuth(
+  options: WithAuthOptions & { ensureSignedIn: true; allowBearer: true },
+): Promise<UserInfo | BearerUserInfo>;
+async function withAuth(
+  options: WithAuthOptions & { allowBearer: true },
+): Promise<UserInfo | BearerUserInfo | NoUserInfo>;
+async function withAuth(options: WithAuthOptions & { ensureSignedIn: true }): Promise<UserInfo>;
+async function withAuth(options?: WithAuthOptions & { ensureSignedIn?: true | false }): Promise<UserInfo | NoUserInfo>;
+async function withAuth(options?: WithAuthOptions): Promise<UserInfo | BearerUserInfo | NoUserInfo> {
+  if (options?.resolveConfig) {
+    const { resolveConfig, ...rest } = options;
+    return runWithResolvedConfig(resolveConfig, () => withAuth(rest));
+  }
+
+  let session: Session | undefined;
+
+  try {
+    session = await getSessionFromHeader();
+  } catch (error) {
+    // A session that can't be unsealed is treated as signed out rather than failing the render
+    if (!(error instanceof SessionDecryptionError)) {
+      throw error;
+    }
+  }
 
   if (!session) {
+    const bearerToken = options?.allowBearer ? await getBearerTokenFromHeader() : undefined;
+    const bearerSession = bearerToken ? getBearerUserInfo(bearerToken) : undefined;
+    if (bearerSession) {
+      return bearerSession;
+    }
+
     if (options?.ensureSignedIn) {
       await redirectToSignIn();
     }
@@ -556,6 +1153,7 @@ async function withAuth(options?: { ensureSignedIn?: boolean }): Promise<UserInf
 
   const {
     sub,
+    exp,
     sid: sessionId,
     org_id: organizationId,
     role,
@@ -572,8 +1170,9 @@ async function withAuth(options?: { ensureSignedIn?: boolean }): Promise<UserInf
   // access token always carries `sub`; when it disagrees with the sealed user
   // id, treat the session as unauthenticated rather than impersonate the user.
   if (session.user && sub && session.user.id !== sub) {
-    console.warn(
+    getLogger().warn(
       `withAuth: sealed session user (${session.user.id}) does not match the access token subject (${sub}); rejecting session.`,
+      { userId: session.user.id, sessionId, reason: 'subject_mismatch' },
     );
     if (options?.ensureSignedIn) {
       await redirectToSignIn();
@@ -592,16 +1191,65 @@ async function withAuth(options?: { ensureSignedIn?: boolean }): Promise<UserInf
     featureFlags,
     impersonator: session.impersonator,
     accessToken: session.accessToken,
+    // The proxy/middleware only passes on an expired token when serving a stale session
+    ...(typeof exp === 'number' && exp * 1000 <= Date.now() && { stale: true }),
   };
 }
 
-async function verifyAccessToken(accessToken: string) {
-  try {
-    await jwtVerify(accessToken, JWKS());
-    return true;
-  } catch {
-    return false;
+// Activity is written at most this often, so active users don't get a new
+// session cookie on every request.
+const ACTIVITY_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Determines whether a session has outlived the configured `maxSessionAgeSeconds`
+ * (counted from sign-in) or `idleTimeoutSeconds` (counted from its last activity).
+ */
+function getSessionExpiryReason(
+  session: Session,
+  { maxSessionAgeSeconds, idleTimeoutSeconds }: Pick<AuthkitOptions, 'maxSessionAgeSeconds' | 'idleTimeoutSeconds'>,
+  now: number,
+): SessionExpiryReason | undefined {
+  if (
+    maxSessionAgeSeconds !== undefined &&
+    session.signedInAt !== undefined &&
+    now - session.signedInAt >= maxSessionAgeSeconds * 1000
+  ) {
+    return 'max_session_age';
   }
+
+  if (
+    idleTimeoutSeconds !== undefined &&
+    session.lastActiveAt !== undefined &&
+    now - session.lastActiveAt >= idleTimeoutSeconds * 1000
+  ) {
+    return 'idle_timeout';
+  }
+}
+
+/**
+ * Stamps the timestamps the session lifetime limits are measured from. Returns
+ * the session unchanged when there is nothing to record. Sessions sealed before
+ * a limit was configured start counting from now.
+ */
+function recordSessionActivity(
+  session: Session,
+  { maxSessionAgeSeconds, idleTimeoutSeconds }: Pick<AuthkitOptions, 'maxSessionAgeSeconds' | 'idleTimeoutSeconds'>,
+  now: number,
+): Session {
+  const needsSignInTime = maxSessionAgeSeconds !== undefined && session.signedInAt === undefined;
+  const needsActivity =
+    idleTimeoutSeconds !== undefined &&
+    (session.lastActiveAt === undefined || now - session.lastActiveAt >= ACTIVITY_UPDATE_INTERVAL_MS);
+
+  if (!needsSignInTime && !needsActivity) {
+    return session;
+  }
+
+  return {
+    ...session,
+    signedInAt: session.signedInAt ?? now,
+    lastActiveAt: needsActivity ? now : session.lastActiveAt,
+  };
 }
 
 /**
@@ -614,18 +1262,18 @@ async function verifyAccessToken(accessToken: string) {
  * less, unless an explicit `refreshBufferSeconds` is provided. A buffer of 0
  * disables proactive refresh.
  */
-function isTokenExpiring(accessToken: string, refreshBufferSeconds?: number): boolean {
+function isTokenExpiring(accessToken: string, refreshBufferSeconds?: number, now = Date.now()): boolean {
   try {
     const { exp, iat } = decodeJwt(accessToken);
     if (typeof exp !== 'number') {
       return false;
     }
 
-    const now = Math.floor(Date.now() / 1000);
+    const nowSeconds = Math.floor(now / 1000);
     const totalTokenLifetime = exp - (iat ?? exp);
     const bufferSeconds = refreshBufferSeconds ?? (totalTokenLifetime <= 300 ? 30 : 60);
 
-    return exp < now + bufferSeconds;
+    return exp < nowSeconds + bufferSeconds;
   } catch {
     return false;
   }
@@ -657,6 +1305,55 @@ function isNetworkError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * Rotates the refresh token inside a tracing span that records whether the
+ * refresh was proactive, the organization and, if it fails, whether the
+ * failure was transient or terminal.
+ */
+function refreshWithSpan(
+  options: { refreshToken: string; organizationId?: string },
+  proactive: boolean,
+): Promise<RefreshResult> {
+  return withSpan(
+    'authkit.refresh_session',
+    { 'authkit.refresh.proactive': proactive, 'authkit.organization_id': options.organizationId },
+    async (span) => {
+      try {
+        const result = await authenticateWithRefreshToken(options);
+        if (result.organizationId) {
+          span.setAttribute('authkit.organization_id', result.organizationId);
+        }
+
+        return result;
+      } catch (error) {
+        span.setAttribute('authkit.refresh.failure', isTransientRefreshError(error) ? 'transient' : 'terminal');
+        throw error;
+      }
+    },
+  );
+}
+
+/**
+ * Determines whether an access token expired less than `maxStaleSeconds` ago.
+ * A token that hasn't expired yet isn't stale, so one that failed verification
+ * for another reason is never served as stale, just like `withAuth` only
+ * reports expired tokens as stale.
+ */
+function isWithinStaleWindow(accessToken: string, maxStaleSeconds = 0, now = Date.now()): boolean {
+  if (maxStaleSeconds <= 0) {
+    return false;
+  }
+
+  let exp: number | undefined;
+  try {
+    ({ exp } = decodeJwt(accessToken));
+  } catch {
+    return false;
+  }
+
+  return typeof exp === 'number' && exp * 1000 <= now && now < (exp + maxStaleSeconds) * 1000;
+}
+
 /**
  * Determines whether a failed refresh is transient (should preserve the
  * session and be retried) rather than terminal (the refresh token is dead and
@@ -680,24 +1377,99 @@ export function isTransientRefreshError(error: unknown): boolean {
   return isNetworkError(error);
 }
 
+/**
+ * Reads the session cookie, reassembling it if it was split into chunks.
+ */
+async function getSessionCookieValue(request?: NextRequest): Promise<string | undefined> {
+  const { cookieName } = getConfig();
+  const allCookies = request ? request.cookies.getAll() : (await cookies()).getAll();
+
+  return readChunkedCookie(cookieName, allCookies);
+}
+
+/**
+ * Appends the `Set-Cookie` headers that write `value` to the session cookie,
+ * splitting it into chunks if it exceeds the browser's cookie size limit and
+ * expiring any chunks left over from a previous, larger value. Passing `null`
+ * deletes the session cookie and all of its chunks.
+ */
+function appendSessionSetCookieHeaders(request: NextRequest, headers: Headers, value: string | null): void {
+  const { cookieName } = getConfig();
+  const chunks = value === null ? [] : chunkCookieValue(cookieName, value);
+  const existingNames = request.cookies.getAll().map(({ name }) => name);
+
+  for (const { name, value: chunkValue } of chunks) {
+    headers.append('Set-Cookie', `${name}=${chunkValue}; ${getCookieOptions(request.url, true)}`);
+  }
+
+  const staleNames = getStaleCookieChunkNames(cookieName, existingNames, chunks);
+  // Always expire the unchunked cookie on deletion, even if the request didn't carry it.
+  if (value === null && !staleNames.includes(cookieName)) {
+    staleNames.unshift(cookieName);
+  }
+
+  for (const name of staleNames) {
+    headers.append(
+      'Set-Cookie',
+      `${name}=; Expires=${new Date(0).toUTCString()}; ${getCookieOptions(request.url, true, true)}`,
+    );
+  }
+}
+
+/**
+ * Reads the session from the session cookie.
+ * @throws {SessionDecryptionError} If the session cookie can't be unsealed.
+ */
 export async function getSessionFromCookie(request?: NextRequest) {
-  const cookieName = WORKOS_COOKIE_NAME || 'wos-session';
-  let cookie;
+  const cookieValue = await getSessionCookieValue(request);
 
-  if (request) {
-    cookie = request.cookies.get(cookieName);
-  } else {
-    const nextCookies = await cookies();
-    cookie = nextCookies.get(cookieName);
+  if (cookieValue) {
+    const { session } = await unsealSessionCookie(cookieValue);
+    return session;
   }
+}
 
-  if (cookie) {
-    return unsealData<Session>(cookie.value, {
-      password: WORKOS_COOKIE_PASSWORD,
-    });
+/**
+ * Unseals the session cookie, treating a cookie that can't be unsealed the
+ * same as a missing one.
+ */
+async function getUnsealedSessionFromCookie(): Promise<UnsealedSession> {
+  const cookieValue = await getSessionCookieValue();
+  if (!cookieValue) {
+    return {};
+  }
+
+  try {
+    return await unsealSessionCookie(cookieValue);
+  } catch (error) {
+    if (error instanceof SessionDecryptionError) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Removes the session referenced by the current session cookie from the
+ * configured session store, revoking it server-side. A no-op when no session
+ * store is configured or the cookie doesn't reference a stored session.
+ */
+export async function deleteStoredSession(): Promise<void> {
+  const { sessionStore } = getAuthKitConfig();
+  if (!sessionStore) {
+    return;
+  }
+
+  const { storeId } = await getUnsealedSessionFromCookie();
+  if (storeId) {
+    await sessionStore.delete(storeId);
   }
 }
 
+/**
+ * Reads the session the proxy/middleware forwarded in the `x-workos-session` header.
+ * @throws {SessionDecryptionError} If the header can't be unsealed.
+ */
 async function getSessionFromHeader(): Promise<Session | undefined> {
   const headersList = await headers();
   const hasMiddleware = Boolean(headersList.get(middlewareHeaderName));
@@ -712,24 +1484,152 @@ async function getSessionFromHeader(): Promise<Session | undefined> {
   const authHeader = headersList.get(sessionHeaderName);
   if (!authHeader) return;
 
-  return unsealData<Session>(authHeader, { password: WORKOS_COOKIE_PASSWORD });
+  const { session } = await unsealSessionCookie(authHeader);
+  return session;
 }
 
-function getReturnPathname(url: string): string {
-  const newUrl = new URL(url);
+async function getApiKeyPrincipal(
+  request: NextRequest,
+  { cacheTtlSeconds }: ApiKeyAuthOptions,
+): Promise<ApiKeyPrincipal | undefined> {
+  const value = getBearerToken(request);
+  if (!value) {
+    return;
+  }
 
-  return `${newUrl.pathname}${newUrl.search}`;
+  let apiKey: Awaited<ReturnType<typeof validateApiKeyValue>>;
+  try {
+    apiKey = await validateApiKeyValue(value, { cacheTtlSeconds });
+  } catch (error) {
+    // Treat the request as unauthenticated rather than failing it while WorkOS can't be reached
+    getLogger().error('Failed to validate API key', { path: request.nextUrl.pathname, error });
+    return;
+  }
+
+  if (!apiKey) {
+    return;
+  }
+
+  return {
+    type: 'api_key',
+    apiKeyId: apiKey.id,
+    name: apiKey.name,
+    organizationId: apiKey.owner.id,
+    permissions: apiKey.permissions,
+  };
 }
 
-function getScreenHint(signUpPaths: string[] | undefined, pathname: string) {
-  if (!signUpPaths) return 'sign-in';
+/**
+ * Reads the session lifetime limits the proxy/middleware enforces. Both are
+ * unset when it has none, or the request didn't go through it.
+ */
+async function getSessionLimitsFromHeader(): Promise<
+  Pick<AuthkitOptions, 'maxSessionAgeSeconds' | 'idleTimeoutSeconds'>
+> {
+  const value = (await headers()).get(sessionLimitsHeaderName);
+  const { maxSessionAgeSeconds, idleTimeoutSeconds } =
+    (value
+      ? await unsealForwardedValue<Pick<AuthkitOptions, 'maxSessionAgeSeconds' | 'idleTimeoutSeconds'>>(value)
+      : undefined) ?? {};
 
-  const screenHintPaths: string[] = signUpPaths.filter((pathGlob) => {
-    const pathRegex = getMiddlewareAuthPathRegex(pathGlob);
-    return pathRegex.exec(pathname);
-  });
+  return {
+    maxSessionAgeSeconds: typeof maxSessionAgeSeconds === 'number' ? maxSessionAgeSeconds : undefined,
+    idleTimeoutSeconds: typeof idleTimeoutSeconds === 'number' ? idleTimeoutSeconds : undefined,
+  };
+}
+
+/**
+ * Runs `fn` with the configuration `resolveConfig` picks for the host the
+ * proxy/middleware recorded for the request. Without a recorded host, `fn` runs
+ * with the current configuration.
+ */
+export async function runWithResolvedConfig<T>(resolveConfig: AuthKitConfigResolver, fn: () => Promise<T>): Promise<T> {
+  const host = (await headers()).get(hostHeaderName);
+
+  if (!host) {
+    return fn();
+  }
+
+  const config = await resolveConfig(host);
+  return runWithAuthKitConfig(config, fn);
+}
+
+/**
+ * Reads the API key the proxy/middleware validated for the request, if any.
+ */
+export async function getApiKeyPrincipalFromHeader(
+  options: Pick<WithAuthOptions, 'resolveConfig'> = {},
+): Promise<ApiKeyPrincipal | undefined> {
+  if (options.resolveConfig) {
+    return runWithResolvedConfig(options.resolveConfig, () => getApiKeyPrincipalFromHeader());
+  }
+
+  const value = (await headers()).get(apiKeyHeaderName);
+  const principal = value ? await unsealForwardedValue<ApiKeyPrincipal>(value) : undefined;
+
+  return principal?.type === 'api_key' ? (principal as ApiKeyPrincipal) : undefined;
+}
+
+/**
+ * Reads the bearer access token the proxy/middleware verified for the request,
+ * if any.
+ */
+async function getBearerTokenFromHeader(): Promise<string | undefined> {
+  const value = (await headers()).get(bearerTokenHeaderName);
+  const { accessToken } = (value ? await unsealForwardedValue<{ accessToken: string }>(value) : undefined) ?? {};
+
+  return typeof accessToken === 'string' ? accessToken : undefined;
+}
+
+function getBearerToken(request: NextRequest): string | undefined {
+  const [scheme, token] = request.headers.get('authorization')?.trim().split(/\s+/) ?? [];
+
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
 
-  return screenHintPaths.length > 0 ? 'sign-up' : 'sign-in';
+/**
+ * Builds the session details of a request authenticated with a bearer access
+ * token from its claims. Returns `undefined` for tokens without a subject.
+ */
+function getBearerUserInfo(accessToken: string): BearerUserInfo | undefined {
+  const {
+    sub,
+    sid: sessionId,
+    org_id: organizationId,
+    role,
+    roles,
+    permissions,
+    entitlements,
+    feature_flags: featureFlags,
+  } = decodeJwt<AccessToken>(accessToken);
+
+  if (!sub) {
+    return;
+  }
+
+  return {
+    authenticatedWith: 'bearer',
+    sessionId,
+    user: { id: sub },
+    organizationId,
+    role,
+    roles,
+    permissions,
+    entitlements,
+    featureFlags,
+    accessToken,
+  };
+}
+
+/**
+ * Returns the path to bring the user back to after signing in. Unlike
+ * `request.nextUrl.pathname`, it keeps the `basePath` and locale, so the user
+ * lands back on the page they started from.
+ */
+function getReturnPathname(url: string): string {
+  const newUrl = new URL(url);
+
+  return `${newUrl.pathname}${newUrl.search}`;
 }
 
 /**
@@ -764,11 +1664,54 @@ export async function saveSession(
   sessionOrResponse: Session | AuthenticationResponse,
   request: NextRequest | string,
 ): Promise<void> {
-  const cookieName = WORKOS_COOKIE_NAME || 'wos-session';
-  const encryptedSession = await encryptSession(sessionOrResponse);
+  // A new sign-in always gets a fresh store id, so a previously issued cookie
+  // can never be used to reach the new session (session fixation). Drop the
+  // session the old cookie pointed at so it doesn't linger in the store.
+  await deleteStoredSession();
+
+  // Record the sign-in time the max session age is measured from
+  const now = Date.now();
+  const signedInAt = 'signedInAt' in sessionOrResponse ? sessionOrResponse.signedInAt : undefined;
+  await persistSession(
+    { ...sessionOrResponse, signedInAt: signedInAt ?? now, lastActiveAt: now },
+    typeof request === 'string' ? request : request.url,
+  );
+}
+
+/**
+ * Expires the session cookie and its chunks from a server action or route
+ * handler.
+ */
+async function expireSessionCookies(url: string): Promise<void> {
+  const { cookieName } = getConfig();
   const nextCookies = await cookies();
-  const url = typeof request === 'string' ? request : request.url;
-  nextCookies.set(cookieName, encryptedSession, getCookieOptions(url));
+
+  for (const { name } of nextCookies.getAll()) {
+    if (isCookieChunkOf(cookieName, name)) {
+      nextCookies.set(name, '', { ...getCookieOptions(url), maxAge: 0 });
+    }
+  }
+}
+
+async function persistSession(
+  sessionOrResponse: Session | AuthenticationResponse,
+  url: string,
+  storeId?: string,
+): Promise<void> {
+  const { cookieName } = getConfig();
+  const encryptedSession = await sealSessionCookie(sessionOrResponse, storeId);
+  const nextCookies = await cookies();
+  const chunks = chunkCookieValue(cookieName, encryptedSession);
+  const existingNames = nextCookies.getAll().map(({ name }) => name);
+
+  for (const { name, value } of chunks) {
+    nextCookies.set(name, value, getCookieOptions(url));
+  }
+
+  // Expire chunks left over from a previously larger session
+  for (const name of getStaleCookieChunkNames(cookieName, existingNames, chunks)) {
+    nextCookies.set(name, '', { ...getCookieOptions(url), maxAge: 0 });
+  }
 }
 
 export { encryptSession, refreshSession, updateSession, updateSessionMiddleware, withAuth };
@@ -1,5 +1,6 @@
 // istanbul ignore file
 
+import { trace, type Attributes, type SpanStatus, type Tracer } from '@opentelemetry/api';
 import { sealData } from 'iron-session';
 import { SignJWT } from 'jose';
 import { WORKOS_COOKIE_NAME, WORKOS_COOKIE_PASSWORD } from './env-variables.js';
@@ -8,6 +9,7 @@ import { User } from '@workos-inc/node';
 
 export async function generateTestToken(payload = {}, expired = false) {
   const defaultPayload = {
+    iss: `https://api.workos.com/user_management/${process.env.WORKOS_CLIENT_ID}`,
     sub: 'user_123',
     sid: 'session_123',
     org_id: 'org_123',
@@ -25,7 +27,6 @@ export async function generateTestToken(payload = {}, expired = false) {
   const token = await new SignJWT(mergedPayload)
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
-    .setIssuer('urn:example:issuer')
     .setExpirationTime(expired ? '0s' : '2h')
     .sign(secret);
 
@@ -72,3 +73,38 @@ export async function generateSession(overrides: Partial<User> = {}) {
   const nextCookies = await cookies();
   nextCookies.set(cookieName, encryptedSession);
 }
+
+export interface TestSpan {
+  name: string;
+  attributes: Attributes;
+  status?: SpanStatus;
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+/**
+ * Registers a tracer provider that records every span started through the
+ * OpenTelemetry API. Call `trace.disable()` to unregister it.
+ */
+export function registerTestTracer(): TestSpan[] {
+  const spans: TestSpan[] = [];
+
+  const tracer = {
+    startActiveSpan(name: string, options: { attributes?: Attributes }, fn: (span: unknown) => unknown) {
+      const recorded: TestSpan = { name, attributes: { ...options.attributes }, exceptions: [], ended: false };
+      spans.push(recorded);
+
+      return fn({
+        setAttribute: (key: string, value: unknown) => Object.assign(recorded.attributes, { [key]: value }),
+        setAttributes: (attributes: Attributes) => Object.assign(recorded.attributes, attributes),
+        setStatus: (status: SpanStatus) => (recorded.status = status),
+        recordException: (exception: unknown) => recorded.exceptions.push(exception),
+        end: () => (recorded.ended = true),
+      });
+    },
+  } as unknown as Tracer;
+
+  trace.setGlobalTracerProvider({ getTracer: () => tracer });
+
+  return spans;
+}
@@ -0,0 +1,67 @@
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { registerTestTracer } from './test-helpers.js';
+import { withSpan } from './tracing.js';
+
+describe('tracing', () => {
+  afterEach(() => {
+    trace.disable();
+  });
+
+  it('runs the callback when no tracer provider is registered', async () => {
+    await expect(withSpan('authkit.test', {}, async () => 'result')).resolves.toBe('result');
+  });
+
+  it('runs the callback when @opentelemetry/api is not installed', async () => {
+    vi.resetModules();
+    vi.doMock('@opentelemetry/api', () => {
+      throw new Error("Cannot find package '@opentelemetry/api'");
+    });
+
+    try {
+      const { withSpan: withSpanWithoutApi } = await import('./tracing.js');
+
+      await expect(
+        withSpanWithoutApi('authkit.test', {}, async (span) => {
+          span.setAttribute('authkit.refresh.proactive', true);
+          return 'result';
+        }),
+      ).resolves.toBe('result');
+    } finally {
+      vi.doUnmock('@opentelemetry/api');
+    }
+  });
+
+  it('records a span with its attributes', async () => {
+    const spans = registerTestTracer();
+
+    await withSpan('authkit.test', { 'authkit.organization_id': 'org_123' }, async (span) => {
+      span.setAttribute('authkit.refresh.proactive', true);
+    });
+
+    expect(spans).toEqual([
+      {
+        name: 'authkit.test',
+        attributes: { 'authkit.organization_id': 'org_123', 'authkit.refresh.proactive': true },
+        exceptions: [],
+        ended: true,
+      },
+    ]);
+  });
+
+  it('marks the span as failed and rethrows when the callback throws', async () => {
+    const spans = registerTestTracer();
+    const error = new Error('Request failed');
+
+    await expect(
+      withSpan('authkit.test', {}, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+
+    expect(spans[0]).toMatchObject({
+      status: { code: SpanStatusCode.ERROR, message: 'Request failed' },
+      exceptions: [error],
+      ended: true,
+    });
+  });
+});
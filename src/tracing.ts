@@ -0,0 +1,54 @@
+import type { AttributeValue, Attributes } from '@opentelemetry/api';
+
+const TRACER_NAME = '@workos-inc/authkit-nextjs';
+
+/** The part of a span the traced work can use. */
+interface TracedSpan {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  setAttributes(attributes: Attributes): unknown;
+}
+
+const NOOP_SPAN: TracedSpan = {
+  setAttribute: () => NOOP_SPAN,
+  setAttributes: () => NOOP_SPAN,
+};
+
+let openTelemetryApi: Promise<typeof import('@opentelemetry/api') | undefined> | undefined;
+
+// `@opentelemetry/api` is an optional peer dependency
+function loadOpenTelemetryApi() {
+  openTelemetryApi ??= import('@opentelemetry/api').catch(() => undefined);
+  return openTelemetryApi;
+}
+
+/**
+ * Runs `fn` inside an OpenTelemetry span, marking the span as failed if `fn`
+ * throws. Spans are only recorded when `@opentelemetry/api` is installed and
+ * the app registers a tracer provider, e.g. with `@vercel/otel`; otherwise this
+ * only calls `fn`.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: TracedSpan) => Promise<T>,
+): Promise<T> {
+  const api = await loadOpenTelemetryApi();
+  if (!api) {
+    return fn(NOOP_SPAN);
+  }
+
+  return api.trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({
+        code: api.SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
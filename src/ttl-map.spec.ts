@@ -0,0 +1,63 @@
+import { createTtlMap } from './ttl-map.js';
+
+describe('ttl-map', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createTtlMap', () => {
+    it('returns entries until their ttl has passed', () => {
+      vi.useFakeTimers();
+      const map = createTtlMap<string>();
+
+      map.set('key_1', 'value', 5);
+      vi.advanceTimersByTime(4000);
+      expect(map.get('key_1')).toBe('value');
+
+      vi.advanceTimersByTime(1000);
+      expect(map.get('key_1')).toBeUndefined();
+    });
+
+    it('deletes entries', () => {
+      const map = createTtlMap<string>();
+
+      map.set('key_1', 'value', 5);
+      map.delete('key_1');
+
+      expect(map.get('key_1')).toBeUndefined();
+    });
+
+    it('extends the expiry of touched entries without reviving expired ones', () => {
+      vi.useFakeTimers();
+      const map = createTtlMap<string>();
+
+      map.set('key_1', 'value', 60);
+      map.set('key_2', 'value', 10);
+      vi.advanceTimersByTime(45 * 1000);
+      map.touch('key_1', 60);
+      map.touch('key_2', 60);
+      vi.advanceTimersByTime(45 * 1000);
+
+      expect(map.get('key_1')).toBe('value');
+      expect(map.get('key_2')).toBeUndefined();
+    });
+
+    it('sweeps expired entries that are never read again once the map has doubled in size', () => {
+      vi.useFakeTimers();
+      const deleteSpy = vi.spyOn(Map.prototype, 'delete');
+      const map = createTtlMap<number>();
+
+      for (let i = 0; i < 63; i++) {
+        map.set(`expired_${i}`, i, 1);
+      }
+      vi.advanceTimersByTime(2000);
+      expect(deleteSpy).not.toHaveBeenCalled();
+
+      map.set('fresh', 0, 60);
+
+      expect(deleteSpy).toHaveBeenCalledTimes(63);
+      expect(map.get('fresh')).toBe(0);
+      deleteSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// Sweeping is skipped until the map holds at least this many entries
+const MIN_SWEEP_SIZE = 64;
+
+/**
+ * A map of entries that expire a number of seconds after they are set.
+ */
+export interface TtlMap<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T, ttlSeconds: number): void;
+  delete(key: string): void;
+  /** Extends the expiry of an entry, unless it has already expired. */
+  touch(key: string, ttlSeconds: number): void;
+}
+
+/**
+ * Creates an in-memory `TtlMap`.
+ *
+ * Expired entries are dropped when they are read, and swept whenever the map
+ * has doubled in size since the last sweep, so entries that are never read
+ * again don't accumulate and writes take amortized constant time.
+ */
+export function createTtlMap<T>(): TtlMap<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  let sweepAtSize = MIN_SWEEP_SIZE;
+
+  function isExpired(entry: { expiresAt: number }) {
+    return entry.expiresAt <= Date.now();
+  }
+
+  function sweep() {
+    for (const [key, entry] of entries) {
+      if (isExpired(entry)) {
+        entries.delete(key);
+      }
+    }
+
+    sweepAtSize = Math.max(MIN_SWEEP_SIZE, entries.size * 2);
+  }
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      if (isExpired(entry)) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      return entry.value;
+    },
+    set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+      if (entries.size >= sweepAtSize) {
+        sweep();
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    touch(key, ttlSeconds) {
+      const entry = entries.get(key);
+      if (entry && !isExpired(entry)) {
+        entry.expiresAt = Date.now() + ttlSeconds * 1000;
+      }
+    },
+  };
+}
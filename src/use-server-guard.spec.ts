@@ -36,7 +36,14 @@ function leadingDirective(source: string): string | null {
 }
 
 describe('SEC-1219: server-only guard', () => {
-  const protectedModules = ['./session.ts', './auth.ts', './validate-api-key.ts'];
+  const protectedModules = [
+    './session.ts',
+    './auth.ts',
+    './validate-api-key.ts',
+    './create-authkit.ts',
+    './user-sessions.ts',
+    './principal.ts',
+  ];
 
   it.each(protectedModules)('%s must not be a module-level Server Action', (modulePath) => {
     const source = read(modulePath);
@@ -0,0 +1,93 @@
+import type { Session as WorkOSSession, User } from '@workos-inc/node';
+import { AuthKitError } from './errors.js';
+import { withAuth } from './session.js';
+import { listSessions, revokeOtherSessions, revokeSession } from './user-sessions.js';
+import { getWorkOS } from './workos.js';
+
+vi.mock('./session.js', () => ({
+  withAuth: vi.fn(),
+}));
+
+const workos = getWorkOS();
+
+function createSession(id: string, overrides: Partial<WorkOSSession> = {}): WorkOSSession {
+  return {
+    object: 'session',
+    id,
+    userId: 'user_123',
+    ipAddress: '192.0.2.1',
+    userAgent: 'Mozilla/5.0',
+    authMethod: 'password',
+    status: 'active',
+    expiresAt: '2030-01-01T00:00:00Z',
+    endedAt: null,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('user-sessions.ts', () => {
+  const sessions = [
+    createSession('session_current'),
+    createSession('session_other'),
+    createSession('session_revoked', { status: 'revoked' }),
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(withAuth).mockResolvedValue({
+      user: { id: 'user_123' } as User,
+      sessionId: 'session_current',
+      accessToken: 'access-token',
+    });
+    vi.spyOn(workos.userManagement, 'listSessions').mockResolvedValue({
+      autoPagination: () => Promise.resolve(sessions),
+    } as Awaited<ReturnType<typeof workos.userManagement.listSessions>>);
+    vi.spyOn(workos.userManagement, 'revokeSession').mockResolvedValue();
+  });
+
+  describe('listSessions', () => {
+    it('should list the active sessions of the signed-in user', async () => {
+      const result = await listSessions();
+
+      expect(withAuth).toHaveBeenCalledWith({ ensureSignedIn: true });
+      expect(workos.userManagement.listSessions).toHaveBeenCalledWith('user_123');
+      expect(result.map(({ id, current }) => ({ id, current }))).toEqual([
+        { id: 'session_current', current: true },
+        { id: 'session_other', current: false },
+      ]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke a session of the signed-in user', async () => {
+      await revokeSession('session_other');
+
+      expect(workos.userManagement.revokeSession).toHaveBeenCalledWith({ sessionId: 'session_other' });
+    });
+
+    it('should refuse to revoke a session of another user', async () => {
+      await expect(revokeSession('session_of_someone_else')).rejects.toThrow(AuthKitError);
+
+      expect(workos.userManagement.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to revoke a session that has already ended', async () => {
+      await expect(revokeSession('session_revoked')).rejects.toThrow('Session not found for the signed-in user');
+
+      expect(workos.userManagement.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should revoke every active session except the current one', async () => {
+      const result = await revokeOtherSessions();
+
+      expect(result).toEqual(['session_other']);
+      expect(workos.userManagement.revokeSession).toHaveBeenCalledTimes(1);
+      expect(workos.userManagement.revokeSession).toHaveBeenCalledWith({ sessionId: 'session_other' });
+    });
+  });
+});
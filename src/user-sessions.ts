@@ -0,0 +1,59 @@
+import 'server-only';
+
+import { AuthKitError } from './errors.js';
+import type { UserSession } from './interfaces.js';
+import { withAuth } from './session.js';
+import { getWorkOS } from './workos.js';
+
+async function getActiveSessions(userId: string) {
+  const sessions = await (await getWorkOS().userManagement.listSessions(userId)).autoPagination();
+
+  return sessions.filter((session) => session.status === 'active');
+}
+
+/**
+ * List the active sessions of the signed-in user, e.g. to show the devices they
+ * are signed in on. Redirects to sign in if there is no signed-in user.
+ * @returns The user's active sessions, with `current` set on the session of this request.
+ */
+export async function listSessions(): Promise<UserSession[]> {
+  const { user, sessionId } = await withAuth({ ensureSignedIn: true });
+  const sessions = await getActiveSessions(user.id);
+
+  return sessions.map((session) => ({ ...session, current: session.id === sessionId }));
+}
+
+/**
+ * Revoke one of the signed-in user's sessions, signing that device out.
+ *
+ * Revoking the current session ends it in WorkOS but leaves the session cookie
+ * in place until its next refresh; use `signOut` to sign out of this device.
+ * @param sessionId The id of the session to revoke.
+ * @throws {AuthKitError} If the session isn't an active session of the signed-in user.
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  const { user } = await withAuth({ ensureSignedIn: true });
+  const sessions = await getActiveSessions(user.id);
+
+  // Session ids come from the client, so only revoke sessions the user owns
+  if (!sessions.some((session) => session.id === sessionId)) {
+    throw new AuthKitError('Session not found for the signed-in user', undefined, { sessionId });
+  }
+
+  await getWorkOS().userManagement.revokeSession({ sessionId });
+}
+
+/**
+ * Revoke every active session of the signed-in user except the current one,
+ * signing them out everywhere else.
+ * @returns The ids of the revoked sessions.
+ */
+export async function revokeOtherSessions(): Promise<string[]> {
+  const { user, sessionId } = await withAuth({ ensureSignedIn: true });
+  const sessions = await getActiveSessions(user.id);
+  const otherSessionIds = sessions.filter((session) => session.id !== sessionId).map((session) => session.id);
+
+  await Promise.all(otherSessionIds.map((id) => getWorkOS().userManagement.revokeSession({ sessionId: id })));
+
+  return otherSessionIds;
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { redirectWithFallback, errorResponseWithFallback, evaluateRecentAuth } from './utils.js';
+import { redirectWithFallback, errorResponseWithFallback, evaluateRecentAuth, getCacheKey } from './utils.js';
 
 describe('utils', () => {
   afterEach(() => {
@@ -123,6 +123,21 @@ describe('utils', () => {
     });
   });
 
+  describe('getCacheKey', () => {
+    it('returns a SHA-256 hex digest that does not contain the parts', async () => {
+      const key = await getCacheKey('client_123', 'refresh-token');
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(key).not.toContain('refresh-token');
+    });
+
+    it('returns the same key for the same parts only', async () => {
+      expect(await getCacheKey('a', 'b')).toBe(await getCacheKey('a', 'b'));
+      expect(await getCacheKey('a', 'b')).not.toBe(await getCacheKey('ab'));
+      expect(await getCacheKey('a', null)).not.toBe(await getCacheKey('a'));
+    });
+  });
+
   describe('evaluateRecentAuth', () => {
     const NOW = 1_700_000_000; // fixed epoch seconds
 
@@ -1,4 +1,4 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 /**
  * Sets cache prevention headers to prevent CDN/proxy caching.
@@ -9,6 +9,14 @@ export function setCachePreventionHeaders(headers: Headers): void {
   headers.set('x-middleware-cache', 'no-cache');
 }
 
+/**
+ * Returns the host a request was made to.
+ */
+export function getRequestHost(request: NextRequest): string {
+  // Fall back to standard URL parsing when nextUrl is not available (e.g., vinext)
+  return (request.nextUrl ?? new URL(request.url)).host;
+}
+
 export function redirectWithFallback(redirectUri: string, headers?: Headers) {
   const newHeaders = headers ? new Headers(headers) : new Headers();
   newHeaders.set('Location', redirectUri);
@@ -58,6 +66,17 @@ export function evaluateRecentAuth({ authTime, maxAgeSeconds, nowSeconds }: Eval
   } as const;
 }
 
+/**
+ * Returns a SHA-256 hex digest of `parts`, so secrets such as refresh tokens
+ * and API keys never end up as keys in a cache.
+ */
+export async function getCacheKey(...parts: unknown[]): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Returns a function that can only be called once.
  * Subsequent calls will return the result of the first call.
@@ -1,4 +1,4 @@
-import { validateApiKey } from './validate-api-key.js';
+import { validateApiKey, validateApiKeyValue } from './validate-api-key.js';
 import { getWorkOS } from './workos.js';
 
 // These are mocked in vitest.setup.ts
@@ -108,4 +108,67 @@ describe('validate-api-key.ts', () => {
       expect(result).toEqual({ apiKey: null });
     });
   });
+
+  describe('validateApiKeyValue', () => {
+    const apiKey = {
+      id: 'api_key_123',
+      object: 'api_key' as const,
+      name: 'Test API Key',
+      obfuscatedValue: 'sk_…7890',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      lastUsedAt: null,
+      permissions: ['projects:read'],
+      owner: { type: 'organization' as const, id: 'org_123' },
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reuse the validation result for the same key', async () => {
+      vi.spyOn(workos.apiKeys, 'createValidation').mockResolvedValue({ apiKey });
+
+      expect(await validateApiKeyValue('sk_cached')).toEqual(apiKey);
+      expect(await validateApiKeyValue('sk_cached')).toEqual(apiKey);
+      expect(workos.apiKeys.createValidation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache keys that fail validation', async () => {
+      vi.spyOn(workos.apiKeys, 'createValidation').mockResolvedValue({ apiKey: null });
+
+      expect(await validateApiKeyValue('sk_invalid')).toBeNull();
+      expect(await validateApiKeyValue('sk_invalid')).toBeNull();
+      expect(workos.apiKeys.createValidation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate the key again once the cache TTL has passed', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(workos.apiKeys, 'createValidation').mockResolvedValue({ apiKey });
+
+      await validateApiKeyValue('sk_expiring', { cacheTtlSeconds: 30 });
+      vi.advanceTimersByTime(31 * 1000);
+      await validateApiKeyValue('sk_expiring', { cacheTtlSeconds: 30 });
+
+      expect(workos.apiKeys.createValidation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache results when the TTL is 0', async () => {
+      vi.spyOn(workos.apiKeys, 'createValidation').mockResolvedValue({ apiKey });
+
+      await validateApiKeyValue('sk_uncached', { cacheTtlSeconds: 0 });
+      await validateApiKeyValue('sk_uncached', { cacheTtlSeconds: 0 });
+
+      expect(workos.apiKeys.createValidation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache errors', async () => {
+      vi.spyOn(workos.apiKeys, 'createValidation')
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValue({ apiKey });
+
+      await expect(validateApiKeyValue('sk_erroring')).rejects.toThrow('Service unavailable');
+      expect(await validateApiKeyValue('sk_erroring')).toEqual(apiKey);
+    });
+  });
 });
@@ -1,8 +1,17 @@
 import 'server-only';
 
+import type { ApiKey } from '@workos-inc/node';
+import { getConfig } from './config.js';
+import { createTtlMap } from './ttl-map.js';
+import { getCacheKey } from './utils.js';
 import { getWorkOS } from './workos.js';
 import { headers } from 'next/headers';
 
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+
+// Recently validated API keys, keyed by a hash of the key
+const validations = createTtlMap<ApiKey>();
+
 export async function validateApiKey() {
   const headersList = await headers();
   const authorizationHeader = headersList.get('authorization');
@@ -17,3 +26,29 @@ export async function validateApiKey() {
 
   return getWorkOS().apiKeys.createValidation({ value });
 }
+
+/**
+ * Validates an API key with WorkOS, reusing the result for `cacheTtlSeconds`
+ * so a client making many requests doesn't cost a round trip on each of them.
+ * Only valid keys are cached, so clients sending random keys can't fill the
+ * cache. Set `cacheTtlSeconds` to `0` to validate on every call.
+ */
+export async function validateApiKeyValue(
+  value: string,
+  { cacheTtlSeconds = DEFAULT_CACHE_TTL_SECONDS }: { cacheTtlSeconds?: number } = {},
+): Promise<ApiKey | null> {
+  const key = await getCacheKey(getConfig().apiKey, value);
+  const cached = validations.get(key);
+
+  if (cached) {
+    return cached;
+  }
+
+  const { apiKey } = await getWorkOS().apiKeys.createValidation({ value });
+
+  if (apiKey && cacheTtlSeconds > 0) {
+    validations.set(key, apiKey, cacheTtlSeconds);
+  }
+
+  return apiKey;
+}
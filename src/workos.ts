@@ -1,22 +1,32 @@
 import { WorkOS } from '@workos-inc/node';
-import { WORKOS_API_HOSTNAME, WORKOS_API_KEY, WORKOS_API_HTTPS, WORKOS_API_PORT } from './env-variables.js';
-import { lazy } from './utils.js';
+import { getConfig } from './config.js';
 
 export const VERSION = '2.14.0';
 
-const options = {
-  apiHostname: WORKOS_API_HOSTNAME,
-  https: WORKOS_API_HTTPS ? WORKOS_API_HTTPS === 'true' : true,
-  port: WORKOS_API_PORT ? parseInt(WORKOS_API_PORT) : undefined,
-  appInfo: {
-    name: 'authkit/nextjs',
-    version: VERSION,
-  },
-};
+const instances = new Map<string, WorkOS>();
 
 /**
- * Create a WorkOS instance with the provided API key and options.
- * If an instance already exists, it returns the existing instance.
+ * Create a WorkOS instance with the configured API key and options.
+ * If an instance already exists for the same configuration, it returns the existing instance.
  * @returns The WorkOS instance.
  */
-export const getWorkOS = lazy(() => new WorkOS(WORKOS_API_KEY, options));
+export function getWorkOS(): WorkOS {
+  const { apiKey, apiHostname, apiHttps, apiPort } = getConfig();
+  const key = JSON.stringify([apiKey, apiHostname, apiHttps, apiPort]);
+
+  let workos = instances.get(key);
+  if (!workos) {
+    workos = new WorkOS(apiKey, {
+      apiHostname,
+      https: apiHttps,
+      port: apiPort,
+      appInfo: {
+        name: 'authkit/nextjs',
+        version: VERSION,
+      },
+    });
+    instances.set(key, workos);
+  }
+
+  return workos;
+}